@@ -0,0 +1,137 @@
+import { parse } from 'https://deno.land/std@0.192.0/flags/mod.ts';
+import { join, resolve, toFileUrl } from 'https://deno.land/std@0.192.0/path/mod.ts';
+import { SqliteOrm } from './src/orm.ts';
+import { buildMigrationFile, readMigrationFiles } from './src/migrations.ts';
+
+const usage = `Usage: deno run -A cli.ts <command> --models <path> [options]
+
+Commands:
+  status     print pending model changes and migrations
+  migrate    apply pending migrations, then pending model changes
+  rollback   roll back applied migrations
+  generate   write a migration file from pending model changes
+
+Options:
+  --models   module that registers the models and exports the orm
+  --export   name of the export holding the orm (default: orm, then the default export)
+  --to       version to migrate to (migrate)
+  --steps    number of migrations to roll back (rollback, default: 1)
+  --name     name of the generated migration (generate, default: schema)
+  --check    exit with code 1 when anything is pending (status)`;
+
+const commands = ['status', 'migrate', 'rollback', 'generate'];
+
+const args = parse(Deno.args, {
+    string: ['models', 'export', 'to', 'steps', 'name'],
+    boolean: ['check', 'help'],
+});
+const command = String(args._[0]);
+
+/**
+ * Parses an integer option, `undefined` when it is not set.
+ */
+function integerOption(name: 'to' | 'steps') {
+    const value = args[name];
+    if (value == null) return undefined;
+    if (!/^\d+$/.test(value)) {
+        console.error(`--${name} should be an integer`);
+        console.log(usage);
+        Deno.exit(1);
+    }
+    return parseInt(value);
+}
+
+if (args.help || !commands.includes(command) || args.models == null) {
+    console.log(usage);
+    Deno.exit(args.help ? 0 : 1);
+}
+const to = integerOption('to');
+const steps = integerOption('steps');
+
+// tables are only migrated when asked to
+SqliteOrm.autoMigrate = false;
+
+const mod = await import(toFileUrl(resolve(args.models)).href);
+const orm = mod[args.export ?? 'orm'] ?? mod.default;
+if (!(orm instanceof SqliteOrm)) {
+    console.error(`${args.models} should export an SqliteOrm imported from the same url as the cli`);
+    Deno.exit(1);
+}
+
+orm.modelsLoaded();
+
+switch (command) {
+    case 'status': {
+        const { changes, migrations } = orm.pendingModelChanges();
+        const pending = orm.migrationStatus().filter((m) => !m.applied);
+
+        console.log('Model changes:');
+        if (changes.length === 0 && Object.keys(migrations).length === 0) console.log('  none');
+        for (const change of changes) {
+            console.log(`  ${change}`);
+        }
+        for (const [name, migration] of Object.entries(migrations)) {
+            console.log(`  ${name} (${migration.create ? 'create' : migration.rebuild ? 'rebuild' : 'alter'}):`);
+            for (const query of migration.queries) {
+                console.log(`    ${query.replaceAll('\n', ' ')}`);
+            }
+        }
+
+        console.log('Migrations:');
+        if (orm.migrationStatus().length === 0) console.log('  none');
+        for (const migration of orm.migrationStatus()) {
+            console.log(`  ${migration.applied ? `applied ${migration.appliedAt!.toISOString()}` : 'pending'}  ${migration.name}`);
+        }
+
+        orm.close();
+        if (args.check && (Object.keys(migrations).length > 0 || pending.length > 0)) Deno.exit(1);
+        break;
+    }
+    case 'migrate': {
+        const { applied, rolledBack } = await orm.migrate({ to });
+        for (const name of rolledBack) {
+            console.log(`rolled back ${name}`);
+        }
+        for (const name of applied) {
+            console.log(`applied ${name}`);
+        }
+
+        const { migrations } = orm.pendingModelChanges();
+        orm.applyModelChanges();
+        for (const name of Object.keys(migrations)) {
+            console.log(`migrated ${name}`);
+        }
+
+        orm.close();
+        break;
+    }
+    case 'rollback': {
+        for (const name of await orm.rollback(steps ?? 1)) {
+            console.log(`rolled back ${name}`);
+        }
+
+        orm.close();
+        break;
+    }
+    case 'generate': {
+        const { migrations, models } = orm.pendingModelChanges();
+        orm.close();
+
+        if (Object.keys(migrations).length === 0) {
+            console.log('no model changes');
+            break;
+        }
+        if (orm.migrationsDir == null) {
+            console.error('migrationsDir is not set');
+            Deno.exit(1);
+        }
+
+        const version = (readMigrationFiles(orm.migrationsDir).at(-1)?.version ?? 0) + 1;
+        const path = join(orm.migrationsDir, `${String(version).padStart(4, '0')}_${args.name ?? 'schema'}.ts`);
+
+        Deno.mkdirSync(orm.migrationsDir, { recursive: true });
+        Deno.writeTextFileSync(path, buildMigrationFile(migrations, models, new URL('./mod.ts', import.meta.url).href));
+        console.log(`created ${path}`);
+        break;
+    }
+}
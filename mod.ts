@@ -1,3 +1,11 @@
 export { SqliteOrm, SqlTable } from './src/orm.ts'
+export type { CacheOptions, ChangeEvent, ChangeType, ColumnChange, HistoryEntry, HookName, ModelHooks, ModelOptions, OrmSubscriber, QueryCacheOptions, QueryCacheStats } from './src/orm.ts'
 export { registerJsonSerializable } from './src/json.ts'
+export type { ColumnTypeDefinition, SqlValue } from './src/column-types.ts'
+export { QueryBuilder, WhereBuilder } from './src/query.ts'
+export { Session } from './src/session.ts'
+export type { PendingChanges } from './src/session.ts'
+export type { AggregateFunction, ColumnName, ComparisonOperator, ListOperator, NullOperator } from './src/query.ts'
+export type { MigrateOptions, MigrateResult, MigrationModels, MigrationModule, MigrationStatus } from './src/migrations.ts'
+export type { TableMigration } from './src/schema.ts'
 export * from './src/errors.ts'
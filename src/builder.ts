@@ -1,91 +1,102 @@
 import { jsonify } from './json.ts';
-import { AggregateSelectQuery, ColumnType, DeleteQuery, Model, SelectQuery, TableColumn, WhereClause } from './orm.ts';
+import { getColumnType } from './column-types.ts';
+import { DBInvalidData } from './errors.ts';
+import { AggregateSelectQuery, ColumnType, DateFormat, DeleteQuery, ForeignKey, InsertConflict, Model, SelectQuery, TableColumn, TableIndex, WhereClause } from './orm.ts';
 
 interface BuiltQuery {
     query: string;
     params: any[];
 }
 
-function getSqlType(type: ColumnType) {
+/**
+ * @param dateFormat how the column is stored when it is a `date` column
+ */
+export function getSqlType(type: ColumnType, dateFormat: DateFormat = 'iso') {
     switch (type) {
         case 'boolean':
         case 'integer':
+        case 'bigint':
             return 'INTEGER';
         case 'json':
         case 'string':
+        case 'enum':
             return 'TEXT';
+        case 'date':
+            return dateFormat === 'iso' ? 'TEXT' : 'INTEGER';
         case 'blob':
             return 'BLOB';
         case 'number':
             return 'REAL';
         default:
-            throw new Error('invalid column type');
+            return getColumnType(type).sqlType;
     }
 }
 
-function getDefaultValue(type: ColumnType, value: any) {
+export function getDefaultValue(type: ColumnType, value: any, dateFormat: DateFormat = 'iso') {
     switch (type) {
         case 'boolean':
             return value ? 1 : 0;
         case 'number':
         case 'integer':
+        case 'bigint':
             return value;
         case 'json':
-            return `'${JSON.stringify(jsonify(value))}'`;
+            return `'${JSON.stringify(jsonify(value)).replaceAll("'", "''")}'`;
         case 'string':
-            return `'${value}'`;
+        case 'enum':
+            return `'${String(value).replaceAll("'", "''")}'`;
+        case 'date':
+            // default values of saved models are read back as strings
+            return dateFormat === 'iso' ? `'${new Date(value).toISOString()}'` : new Date(value).getTime();
         case 'blob':
             return value;
-        default:
-            throw new Error('invalid column type');
+        default: {
+            const data = getColumnType(type).serialize(value);
+            if (typeof data === 'string') return `'${data.replaceAll("'", "''")}'`;
+            if (typeof data === 'boolean') return data ? 1 : 0;
+            if (data instanceof Uint8Array) return `X'${[...data].map((b) => b.toString(16).padStart(2, '0')).join('')}'`;
+            return data;
+        }
     }
 }
 
 export function buildTableQuery(model: Model) {
-    const str = [`CREATE TABLE ${model.database}.'${model.tableName}' (`];
-    for (const column of model.columns) {
-        str.push(buildColumnQuery(column) + ',');
+    const primaryKeys = model.columns.filter((c) => c.isPrimaryKey);
+    const defs = model.columns.map((column) => buildColumnQuery(column, primaryKeys.length === 1));
+    if (primaryKeys.length > 1) defs.push(`PRIMARY KEY (${primaryKeys.map((c) => `"${c.mappedTo ?? c.name}"`).join(', ')})`);
+    for (const key of model.foreignKeys ?? []) {
+        defs.push(buildForeignKeyQuery(key));
     }
-    str[str.length - 1] = str[str.length - 1].slice(0, -1);
-    str.push(')');
 
-    return str.join('\n');
+    return [`CREATE TABLE ${model.database}.'${model.tableName}' (`, defs.join(',\n'), ')'].join('\n');
 }
 
-export function buildColumnQuery(column: TableColumn) {
-    if (column.autoIncrement && column.type != 'integer') throw new Error('Auto increment cannot be used on non integer column.');
-    return `"${column.name}" ${getSqlType(column.type)} ${column.nullable ? '' : 'NOT NULL'} ${column.defaultValue == null && !column.autoIncrement ? '' : 'DEFAULT ' + getDefaultValue(column.type, column.defaultValue)} ${column.isPrimaryKey ? 'PRIMARY KEY' : ''} ${column.autoIncrement ? 'AUTOINCREMENT' : ''}`;
+export function buildForeignKeyQuery(key: ForeignKey) {
+    const str = [`FOREIGN KEY ("${key.column}") REFERENCES '${key.table}' ("${key.references}")`];
+    if (key.onDelete) str.push(`ON DELETE ${key.onDelete.toUpperCase()}`);
+    if (key.onUpdate) str.push(`ON UPDATE ${key.onUpdate.toUpperCase()}`);
+    return str.join(' ');
 }
 
-export function buildAlterQuery(existingModel: Model, actualModel: Model) {
-    // shouldn't be possible
-    if (existingModel.tableName !== actualModel.tableName) throw new Error(`[internal] table names are different (${existingModel.tableName} != ${actualModel.tableName})`);
-    if (existingModel.columns.find((c) => c.isPrimaryKey)?.name !== actualModel.columns.find((c) => c.isPrimaryKey)?.name) throw new Error(`${existingModel.tableName}: Cannot add a column automatically, a primary key column already exists.`);
-
-    return actualModel.columns
-        .filter((col) => existingModel.columns.find((c) => c.name === col.name || c.name === col.mappedTo) == null)
-        .map((col) => `ALTER TABLE ${actualModel.database}.'${actualModel.tableName}' ADD COLUMN ${buildColumnQuery(col)}`);
+export function buildIndexQuery(model: Model, index: TableIndex) {
+    return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${model.database}.'${index.name}' ON '${model.tableName}' (${index.columns.map((c) => `"${c}"`).join(', ')})${index.where ? ` WHERE ${index.where}` : ''}`;
 }
 
-export function buildModelFromData(ogModel: Model, data: any[]): Model {
-    const cols: TableColumn[] = [];
+export function buildDropIndexQuery(model: Model, name: string) {
+    return `DROP INDEX ${model.database}.'${name}'`;
+}
 
-    for (const datum of data) {
-        const ogCol = ogModel.columns.find((t) => t.name === datum.name || t.mappedTo === datum.name);
-        if (ogCol == null) continue;
+/**
+ * @param inlinePrimaryKey whether the primary key is declared on the column, composite keys are declared on the table
+ */
+export function buildColumnQuery(column: TableColumn, inlinePrimaryKey = true) {
+    if (column.autoIncrement && column.type != 'integer') throw new Error('Auto increment cannot be used on non integer column.');
 
-        cols.push({
-            defaultValue: datum.dflt_value,
-            name: datum.name,
-            nullable: datum.notnull == 0,
-            type: ogCol.type,
-            isPrimaryKey: datum.pk == 1,
-            mappedTo: ogCol.mappedTo,
-            autoIncrement: ogCol.autoIncrement,
-        });
-    }
+    const name = `"${column.mappedTo ?? column.name}"`;
+    const checks = column.check ? [column.check] : [];
+    if (column.type === 'enum') checks.push(`${name} IN (${(column.enumValues ?? []).map((v) => `'${v.replaceAll("'", "''")}'`).join(', ')})`);
 
-    return new Model(ogModel.tableName, cols, ogModel.database);
+    return `${name} ${getSqlType(column.type, column.dateFormat)} ${column.nullable ? '' : 'NOT NULL'} ${column.defaultValue == null && !column.autoIncrement ? '' : 'DEFAULT ' + getDefaultValue(column.type, column.defaultValue, column.dateFormat)} ${column.isPrimaryKey && inlinePrimaryKey ? 'PRIMARY KEY' : ''} ${column.autoIncrement ? 'AUTOINCREMENT' : ''}${checks.length > 0 ? ` CHECK (${checks.join(' AND ')})` : ''}`;
 }
 
 function buildBaseFilterQuery(query: Partial<SelectQuery>): BuiltQuery {
@@ -125,35 +136,71 @@ export function buildDeleteQuery(query: DeleteQuery, model: Model): BuiltQuery {
     return base;
 }
 
-export function buildInsertQuery(model: Model, data: Record<string, unknown>): BuiltQuery {
+/**
+ * Builds a query that soft deletes matching rows by setting their `deletedAt` column.
+ */
+export function buildSoftDeleteQuery(query: DeleteQuery, model: Model, deletedAt: TableColumn, value: unknown): BuiltQuery {
+    const base = buildBaseFilterQuery(query);
+    return {
+        query: `UPDATE ${model.database}.'${model.tableName}' SET ${[`"${deletedAt.mappedTo ?? deletedAt.name}" = ?`, ...versionIncrement(model)].join(', ')} WHERE rowid IN (SELECT rowid FROM ${model.database}.'${model.tableName}' ${base.query})`,
+        params: [value, ...base.params],
+    };
+}
+
+/**
+ * @param conflict when set, the query handles conflicts and returns the written row
+ */
+export function buildInsertQuery(model: Model, data: Record<string, unknown>, conflict?: InsertConflict): BuiltQuery {
     const params: any[] = [];
     const cols: string[] = [];
     for (const [col, value] of Object.entries(data)) {
         const modelCol = model.columns.find((c) => c.name === col || c.mappedTo === col) as NonNullable<TableColumn>;
-        if (modelCol.isPrimaryKey && modelCol.autoIncrement) continue;
+        // auto increment keys are only inserted when handling conflicts, so that rows can conflict on them
+        if (modelCol.isPrimaryKey && modelCol.autoIncrement && (conflict == null || value == null)) continue;
         cols.push(col);
         params.push(value);
     }
 
+    const str = [`INSERT${conflict && conflict.action !== 'update' ? ` OR ${conflict.action.toUpperCase()}` : ''} INTO '${model.tableName}' (${cols.join(', ')}) VALUES (${cols.map(() => '?').join(', ')})`];
+    if (conflict?.action === 'update') {
+        const update = conflict.update ?? [];
+        str.push(`ON CONFLICT (${(conflict.target ?? []).map((c) => `"${c}"`).join(', ')})`);
+        const version = model.columns.find((c) => c.version);
+        const set = update.map((c) => version && (version.mappedTo ?? version.name) === c ? `"${c}" = "${c}" + 1` : `"${c}" = excluded."${c}"`);
+        str.push(set.length > 0 ? `DO UPDATE SET ${set.join(', ')}` : 'DO NOTHING');
+    }
+    if (conflict) {
+        str.push('RETURNING *');
+    }
+
     return {
-        query: `INSERT INTO '${model.tableName}' (${cols.join(', ')}) VALUES (${cols.map(() => '?').join(', ')})`,
+        query: str.join(' '),
         params,
     };
 }
 
+/**
+ * Assignment that increments the version column of a model, rows get a new version on every update.
+ */
+function versionIncrement(model: Model) {
+    const version = model.columns.find((c) => c.version);
+    return version ? [`"${version.mappedTo ?? version.name}" = "${version.mappedTo ?? version.name}" + 1`] : [];
+}
+
 export function buildUpdateQuery(model: Model, data: Record<string, unknown>): BuiltQuery {
     const params: any[] = [];
     const cols: string[] = [];
 
-    let primaryCol;
-    let primaryVal;
+    const primaryCols: string[] = [];
+    const primaryVals: unknown[] = [];
 
     for (const [col, value] of Object.entries(data)) {
         const modelCol = model.columns.find((c) => c.name === col || c.mappedTo === col) as NonNullable<TableColumn>;
 
-        if (modelCol.isPrimaryKey) {
-            primaryCol = modelCol.mappedTo ?? modelCol.name;
-            primaryVal = value;
+        // the row is only updated when it still has the version the object was loaded with
+        if (modelCol.isPrimaryKey || modelCol.version) {
+            primaryCols.push(modelCol.mappedTo ?? modelCol.name);
+            primaryVals.push(value);
             continue;
         }
 
@@ -161,9 +208,19 @@ export function buildUpdateQuery(model: Model, data: Record<string, unknown>): B
         params.push(value);
     }
 
+    const assignments = [...cols.map((c) => `${c} = ?`), ...versionIncrement(model)];
+    if (assignments.length === 0) throw new DBInvalidData(`no columns to update in table ${model.tableName}`);
+
+    return {
+        query: `UPDATE '${model.tableName}' SET ${assignments.join(', ')} WHERE ${primaryCols.map((c) => `${c} = ?`).join(' AND ')}`,
+        params: [...params, ...primaryVals],
+    };
+}
+
+export function buildUpdateWhereQuery(query: WhereClause, model: Model, data: Record<string, unknown>): BuiltQuery {
     return {
-        query: `UPDATE '${model.tableName}' SET ${cols.map((c) => `${c} = ?`).join(', ')} WHERE ${primaryCol} = ?`,
-        params: [...params, primaryVal],
+        query: `UPDATE ${model.database}.'${model.tableName}' SET ${[...Object.keys(data).map((c) => `"${c}" = ?`), ...versionIncrement(model)].join(', ')} WHERE ${query.where.clause}`,
+        params: [...Object.values(data), ...(query.where.values ?? [])],
     };
 }
 
@@ -183,7 +240,7 @@ export function buildAggregateQuery(query: AggregateSelectQuery, model: Model):
         params.push(...(query.where.values ?? []));
     }
 
-    if (query.group) {
+    if (query.group && query.group.cols.length > 0) {
         str.push(`GROUP BY ${query.group.cols.join(', ')}`);
     }
 
@@ -226,5 +283,13 @@ export function isProvidedTypeValid(provType: any, col: TableColumn): boolean {
             return typeof provType === 'object' || provType instanceof Array;
         case 'blob':
             return provType instanceof Uint8Array;
+        case 'date':
+            return provType instanceof Date && !isNaN(provType.getTime());
+        case 'bigint':
+            return typeof provType === 'bigint';
+        case 'enum':
+            return typeof provType === 'string' && (col.enumValues ?? []).includes(provType);
+        default:
+            return getColumnType(col.type).validate?.(provType) ?? true;
     }
 }
@@ -0,0 +1,69 @@
+import { DBInvalidTable } from './errors.ts';
+
+export type BuiltinColumnType = 'string' | 'number' | 'boolean' | 'json' | 'integer' | 'blob' | 'date' | 'bigint' | 'enum';
+
+const builtinTypes: BuiltinColumnType[] = ['string', 'number', 'boolean', 'json', 'integer', 'blob', 'date', 'bigint', 'enum'];
+
+/**
+ * Value that can be bound to a statement.
+ */
+export type SqlValue = string | number | bigint | boolean | Uint8Array | null;
+
+/**
+ * Converts property values of a custom column type from and to the values stored in the column.
+ */
+export interface ColumnTypeDefinition<T = any> {
+    sqlType: 'TEXT' | 'INTEGER' | 'REAL' | 'BLOB';
+    serialize(value: T): SqlValue;
+    deserialize(data: any): T;
+    /**
+     * Whether a value can be stored in the column, values of any type are accepted when it is not set.
+     */
+    validate?(value: unknown): boolean;
+    /**
+     * Whether a default value belongs to this type, used to infer the type of properties without a column type.
+     */
+    infer?(value: unknown): boolean;
+}
+
+const columnTypes = new Map<string, ColumnTypeDefinition>();
+
+export function isBuiltinColumnType(name: string): name is BuiltinColumnType {
+    return (builtinTypes as string[]).includes(name);
+}
+
+/**
+ * Whether two definitions are the same, e.g. when each orm instance registers a type with the same code.
+ */
+function sameDefinition(a: ColumnTypeDefinition, b: ColumnTypeDefinition) {
+    const fns = ['serialize', 'deserialize', 'validate', 'infer'] as const;
+    return a === b || (a.sqlType === b.sqlType && fns.every((fn) => String(a[fn]) === String(b[fn])));
+}
+
+/**
+ * Registers a column type, types are shared by all orm instances and have to be registered before
+ * the models that use them. Registering the same definition again does nothing.
+ */
+export function registerColumnType<T>(name: string, definition: ColumnTypeDefinition<T>) {
+    if (isBuiltinColumnType(name)) throw new DBInvalidTable(`${name} is a built in column type`);
+
+    const existing = columnTypes.get(name);
+    if (existing != null && sameDefinition(existing, definition)) return;
+    if (existing != null) throw new DBInvalidTable(`Column type ${name} is already registered with a different definition`);
+    columnTypes.set(name, definition);
+}
+
+export function getColumnType(name: string): ColumnTypeDefinition {
+    const definition = columnTypes.get(name);
+    if (definition == null) throw new DBInvalidTable(`Unknown column type: ${name}`);
+    return definition;
+}
+
+/**
+ * Finds the registered type a default value belongs to.
+ */
+export function inferColumnType(value: unknown): string | undefined {
+    for (const [name, definition] of columnTypes) {
+        if (definition.infer?.(value)) return name;
+    }
+}
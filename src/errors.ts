@@ -10,3 +10,32 @@ export class DBModelNotFound extends DBError {
 }
 export class DBInvalidTable extends DBError {}
 export class DBInvalidData extends DBError {}
+export class DBMigrationError extends DBError {}
+/**
+ * Thrown when a row was changed or deleted by another writer since it was loaded, see `@orm.version()`.
+ */
+export class DBConcurrentModification extends DBError {}
+export class DBUniqueViolation extends DBError {
+    constructor(public table: string, public columns: string[], options?: ErrorOptions) {
+        super(`${table}: unique constraint on ${columns.join(', ')} was violated`, options);
+    }
+}
+
+export interface ValidationFailure {
+    model: string;
+    table: string;
+    property: string;
+    column: string;
+    /**
+     * Name of the failed rule, `type` and `nullable` for values that cannot be stored in the column.
+     */
+    rule: string;
+    message: string;
+    value: unknown;
+}
+
+export class DBValidationError extends DBError {
+    constructor(public failures: ValidationFailure[]) {
+        super(`${failures[0].model} is invalid: ${failures.map((f) => `${f.property} ${f.message}`).join(', ')}`);
+    }
+}
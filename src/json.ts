@@ -15,7 +15,7 @@ export function registerJsonSerializable(ignoredProps: string[] = []) {
 }
 
 function isSerializable(obj: any): boolean {
-    return typeof obj !== 'bigint' && typeof obj !== 'function' && typeof obj !== 'symbol';
+    return typeof obj !== 'function' && typeof obj !== 'symbol';
 }
 
 function writeValue(val: any) {
@@ -27,7 +27,19 @@ function writeValue(val: any) {
             return val;
         case 'string':
             return val;
+        case 'bigint':
+            return {
+                data: val.toString(),
+                type: 'BigInt',
+            };
         case 'object': {
+            if (val instanceof Date) {
+                return {
+                    data: val.toISOString(),
+                    type: 'Date',
+                };
+            }
+
             if (val instanceof Map) {
                 return {
                     data: jsonify([...val.entries()]),
@@ -91,6 +103,14 @@ function readValue(val: any, compatMode: boolean) {
                 return decodeBase64(val.data);
             }
 
+            if (val.type === 'Date') {
+                return new Date(val.data);
+            }
+
+            if (val.type === 'BigInt') {
+                return BigInt(val.data);
+            }
+
             if (val.type === 'object') {
                 return dejsonify(val.data, compatMode);
             }
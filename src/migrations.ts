@@ -0,0 +1,135 @@
+import { join, resolve, toFileUrl } from 'https://deno.land/std@0.192.0/path/mod.ts';
+import { DBMigrationError } from './errors.ts';
+import type { Model, SqliteOrm } from './orm.ts';
+import type { TableMigration } from './schema.ts';
+
+/**
+ * A migration file exports both functions, they are run inside a transaction.
+ */
+export interface MigrationModule {
+    up(orm: SqliteOrm): void | Promise<void>;
+    down(orm: SqliteOrm): void | Promise<void>;
+    /**
+     * Set by generated migrations, the models are saved when the migration is applied or rolled back so that
+     * `applyModelChanges()` does not migrate the tables again.
+     */
+    models?: MigrationModels;
+}
+
+/**
+ * Models of the tables a migration changes keyed by model name, `null` for tables that do not exist.
+ */
+export interface MigrationModels {
+    up: Record<string, Model | null>;
+    down: Record<string, Model | null>;
+}
+
+export interface MigrationFile {
+    /**
+     * Number the file name starts with.
+     */
+    version: number;
+    /**
+     * File name without extension.
+     */
+    name: string;
+    path: string;
+}
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    applied: boolean;
+    appliedAt?: Date;
+}
+
+export interface MigrateOptions {
+    /**
+     * Version to migrate to, migrations after it are rolled back. Defaults to the latest version.
+     */
+    to?: number;
+}
+
+export interface MigrateResult {
+    /**
+     * Names of applied migrations.
+     */
+    applied: string[];
+    /**
+     * Names of rolled back migrations, when migrating to a version below the latest applied one.
+     */
+    rolledBack: string[];
+}
+
+export const migrationTable = '_orm_migrations';
+
+const migrationFileRegex = /^(\d+)[_-].*\.(ts|js|mjs)$/;
+
+export function buildMigrationTableQuery() {
+    return `CREATE TABLE IF NOT EXISTS main.'${migrationTable}' ("version" INTEGER NOT NULL PRIMARY KEY, "name" TEXT NOT NULL, "appliedAt" TEXT NOT NULL)`;
+}
+
+/**
+ * Reads migration files from a directory, sorted by version.
+ */
+export function readMigrationFiles(dir: string): MigrationFile[] {
+    const files: MigrationFile[] = [];
+
+    try {
+        for (const entry of Deno.readDirSync(dir)) {
+            if (!entry.isFile) continue;
+            const match = entry.name.match(migrationFileRegex);
+            if (match == null) continue;
+
+            const version = parseInt(match[1]);
+            const existing = files.find((f) => f.version === version);
+            if (existing) throw new DBMigrationError(`${entry.name} has the same version as ${existing.name}`);
+
+            files.push({
+                version,
+                name: entry.name.slice(0, -(match[2].length + 1)),
+                path: join(dir, entry.name),
+            });
+        }
+    } catch (e) {
+        if (e instanceof Deno.errors.NotFound) return [];
+        throw e;
+    }
+
+    return files.sort((a, b) => a.version - b.version);
+}
+
+export async function loadMigration(file: MigrationFile): Promise<MigrationModule> {
+    const mod = await import(toFileUrl(resolve(file.path)).href);
+    if (typeof mod.up !== 'function' || typeof mod.down !== 'function') throw new DBMigrationError(`${file.name} should export an up and a down function`);
+    return mod;
+}
+
+/**
+ * Builds the source of a migration file that runs the queries of table migrations.
+ * @param migrations table migrations keyed by model name
+ * @param models models of the migrated tables
+ * @param libUrl url `SqliteOrm` is imported from
+ */
+export function buildMigrationFile(migrations: Record<string, TableMigration>, models: MigrationModels, libUrl: string) {
+    const exec = (queries: string[]) => queries.map((q) => `    orm.db.exec(${JSON.stringify(q)});`);
+    const down = Object.values(migrations).reverse().flatMap((m) => m.rollbackQueries ?? []);
+
+    return [
+        `// generated from changes to ${Object.keys(migrations).join(', ')}`,
+        `import type { SqliteOrm } from '${libUrl}';`,
+        '',
+        'export function up(orm: SqliteOrm) {',
+        ...exec(Object.values(migrations).flatMap((m) => m.queries)),
+        '}',
+        '',
+        'export function down(orm: SqliteOrm) {',
+        ...exec(down),
+        '}',
+        '',
+        '// saved when the migration is applied or rolled back',
+        // default values of bigint columns
+        `export const models = ${JSON.stringify(models, (_key, value) => typeof value === 'bigint' ? value.toString() : value, 2)};`,
+        '',
+    ].join('\n');
+}
@@ -42,7 +42,8 @@ export function write(models: Record<string, Model>, dbPath: string) {
                 version: 1,
                 models,
             },
-            null,
+            // default values of bigint columns
+            (_key, value) => typeof value === 'bigint' ? value.toString() : value,
             2,
         ),
     );
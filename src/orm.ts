@@ -1,10 +1,17 @@
-import { Database as SqliteDatabase, DatabaseOpenOptions } from 'jsr:@db/sqlite@0.11';
-import { buildAggregateQuery, buildAlterQuery, buildCountWhereQuery, buildDeleteQuery, buildInsertQuery, buildModelFromData, buildSelectQuery, buildTableQuery, buildUpdateQuery, isProvidedTypeValid } from './builder.ts';
-import { DBError, DBInvalidData, DBInvalidTable, DBModelNotFound, DBNotFound } from './errors.ts';
+import { Database as SqliteDatabase, DatabaseOpenOptions, Statement } from 'jsr:@db/sqlite@0.11';
+import { buildAggregateQuery, buildCountWhereQuery, buildDeleteQuery, buildInsertQuery, buildSelectQuery, buildSoftDeleteQuery, buildUpdateQuery, buildUpdateWhereQuery, isProvidedTypeValid } from './builder.ts';
+import { DBConcurrentModification, DBError, DBInvalidData, DBInvalidTable, DBMigrationError, DBModelNotFound, DBNotFound, DBUniqueViolation, DBValidationError, ValidationFailure } from './errors.ts';
 import { dejsonify, jsonify } from './json.ts';
+import { BuiltinColumnType, ColumnTypeDefinition, getColumnType, inferColumnType, isBuiltinColumnType, registerColumnType } from './column-types.ts';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { decodeBase64Url, encodeBase64Url } from 'jsr:@std/encoding@1.0.5';
 import { prettyPrintDiff } from './util.ts';
 import { basename, join } from 'https://deno.land/std@0.192.0/path/mod.ts';
 import * as ModelReader from './model-reader.ts';
+import { QueryBuilder } from './query.ts';
+import { Session } from './session.ts';
+import { LiveColumn, LiveForeignKey, LiveIndex, planMigration, planRollback, TableMigration } from './schema.ts';
+import { buildMigrationTableQuery, loadMigration, MigrateOptions, MigrateResult, MigrationFile, MigrationModels, MigrationStatus, migrationTable, readMigrationFiles } from './migrations.ts';
 
 interface OrmOptions {
     /**
@@ -40,9 +47,67 @@ interface OrmOptions {
      * registered with `@registerJsonSerializable()`)
      */
     jsonCompatMode?: boolean;
+    /**
+     * Whether foreign key constraints are enforced (default true).
+     */
+    foreignKeys?: boolean;
+    /**
+     * How tables are migrated when models change.
+     */
+    migration?: MigrationOptions;
+    /**
+     * Directory containing migration files, used by `orm.migrate()` and `orm.rollback()`.
+     * Files are named `<version>_<name>.ts` and export an `up(orm)` and a `down(orm)` function.
+     */
+    migrationsDir?: string;
+    /**
+     * Whether `save()` throws `DBNotFound` when an update does not change any row (default false).
+     */
+    strict?: boolean;
+    /**
+     * Maximum number of prepared statements kept for reuse, least recently used statements are finalized
+     * first (default 100, 0 disables the cache).
+     */
+    statementCacheSize?: number;
+    /**
+     * Limits of the query result cache, results are only cached for calls with the `cache` option.
+     */
+    queryCache?: QueryCacheOptions;
+    /**
+     * Whether `min`, `max`, `length` and `enum` validation rules are also added to tables as CHECK constraints (default false).
+     */
+    checkConstraints?: boolean;
+    /**
+     * How `date` columns are stored, `iso` for ISO 8601 text or `unix` for milliseconds since the epoch (default `iso`).
+     */
+    dateFormat?: DateFormat;
 }
 
-export type ColumnType = 'string' | 'number' | 'boolean' | 'json' | 'integer' | 'blob';
+export interface MigrationOptions {
+    /**
+     * Drop columns that were removed from a model, otherwise they stay in the table (default false).
+     */
+    dropRemovedColumns?: boolean;
+    /**
+     * How values of a column are converted when its type changes (default 'cast').
+     * - `cast` converts values with `CAST(column AS <new type>)`
+     * - `default` replaces values with the default value of the column
+     * - `error` refuses to migrate
+     */
+    typeConversion?: 'cast' | 'default' | 'error';
+    /**
+     * SQL expressions used to fill a column when its table is rebuilt, keyed by `<model>.<property>`.
+     * Old columns can be referenced by name, e.g. `{ 'Foo.bar': "bar || '-old'" }`.
+     */
+    convert?: Record<string, string>;
+}
+
+/**
+ * Built in column type, or the name of a type registered with `registerColumnType()`.
+ */
+export type ColumnType = BuiltinColumnType | (string & Record<never, never>);
+
+export type DateFormat = 'iso' | 'unix';
 
 export class SqlTable {
     public _new = true;
@@ -79,6 +144,213 @@ export interface TableColumn {
      * Only valid for type 'integer' columns.
      */
     autoIncrement: boolean;
+    /**
+     * Whether values of this column have to be unique, enforced with a unique index.
+     */
+    unique?: boolean;
+    /**
+     * Whether this column has an index.
+     */
+    indexed?: boolean;
+    /**
+     * CHECK constraint of the column, built from validation rules when `checkConstraints` is enabled.
+     */
+    check?: string;
+    /**
+     * Timestamp the orm maintains in this column.
+     */
+    timestamp?: 'createdAt' | 'updatedAt' | 'deletedAt';
+    /**
+     * Values of an `enum` column.
+     */
+    enumValues?: string[];
+    /**
+     * How a `date` column is stored, set from `OrmOptions.dateFormat`.
+     */
+    dateFormat?: DateFormat;
+    /**
+     * Whether the column holds the version of the row, incremented on every update.
+     */
+    version?: boolean;
+}
+
+export interface IndexOptions {
+    /**
+     * Name of the index, defaults to `<table>_<columns>_idx` (or `_unique`).
+     */
+    name?: string;
+    /**
+     * Whether values of the indexed columns have to be unique.
+     */
+    unique?: boolean;
+    /**
+     * Makes the index partial, only rows matching this SQL expression are indexed.
+     */
+    where?: string;
+}
+
+export interface TableIndex {
+    name: string;
+    /**
+     * Names of the indexed columns.
+     */
+    columns: string[];
+    unique: boolean;
+    where?: string;
+}
+
+export type RelationType = 'belongsTo' | 'hasOne' | 'hasMany' | 'manyToMany';
+
+export type ForeignKeyAction = 'cascade' | 'set null' | 'set default' | 'restrict' | 'no action';
+
+export interface RelationOptions {
+    /**
+     * What happens to rows referencing a deleted row.
+     */
+    onDelete?: ForeignKeyAction;
+    /**
+     * What happens to rows referencing a row whose key was changed.
+     */
+    onUpdate?: ForeignKeyAction;
+}
+
+export interface Relation extends RelationOptions {
+    type: RelationType;
+    /**
+     * Property the related rows are loaded into.
+     */
+    name: string;
+    /**
+     * Returns the related model, a function so that models can reference models declared after them.
+     */
+    target: () => new () => SqlTable;
+    /**
+     * Property holding the foreign key. For `belongsTo` it is on this model, for `manyToMany` it is
+     * the join table column referencing this model, otherwise it is on the target model.
+     */
+    foreignKey: string;
+    /**
+     * Join table of a `manyToMany` relation.
+     */
+    joinTable?: string;
+    /**
+     * Join table column referencing the target model of a `manyToMany` relation.
+     */
+    otherKey?: string;
+}
+
+export interface ManyToManyOptions {
+    /**
+     * Name of the join table, defaults to both table names sorted and joined by `_`.
+     */
+    joinTable?: string;
+    /**
+     * Join table column referencing this model, defaults to `<model>Id`.
+     */
+    foreignKey?: string;
+    /**
+     * Join table column referencing the target model, defaults to `<target>Id`.
+     */
+    otherKey?: string;
+}
+
+export interface ForeignKey extends RelationOptions {
+    /**
+     * Column in this table.
+     */
+    column: string;
+    /**
+     * Referenced table.
+     */
+    table: string;
+    /**
+     * Referenced column.
+     */
+    references: string;
+}
+
+export interface SoftDeleteOptions {
+    /**
+     * Whether soft deleted rows are included (default false).
+     */
+    withDeleted?: boolean;
+}
+
+export interface QueryCacheOptions {
+    /**
+     * Maximum number of cached results, least recently used results are dropped first (default 1000).
+     */
+    maxSize?: number;
+    /**
+     * Time in milliseconds results are cached for when `cache` is `true` (default 60000).
+     */
+    ttlMs?: number;
+}
+
+export interface CacheOptions {
+    /**
+     * Reads the result from the query cache, `true` caches it for `queryCache.ttlMs` and a number for that many
+     * milliseconds. Results are invalidated when the orm writes to their table. `iterate()` is never cached.
+     */
+    cache?: boolean | number;
+}
+
+export interface FindOptions extends SoftDeleteOptions, CacheOptions {
+    /**
+     * Relations to load into the found rows.
+     */
+    include?: string[];
+}
+
+export interface DeleteOptions {
+    /**
+     * Delete rows of models with a `softDelete` column instead of marking them as deleted.
+     */
+    force?: boolean;
+}
+
+export type ConflictAction = 'ignore' | 'replace' | 'update';
+
+export interface SaveOptions {
+    /**
+     * What happens when inserting a new row conflicts with an existing row.
+     * - `ignore` keeps the existing row
+     * - `replace` deletes the existing row and inserts the new one
+     * - `update` updates the existing row, same as `orm.upsert()`
+     */
+    onConflict?: ConflictAction;
+    /**
+     * Whether to throw `DBNotFound` when an update does not change any row, e.g. because the row was deleted
+     * (default `OrmOptions.strict`).
+     */
+    strict?: boolean;
+}
+
+export interface UpsertOptions {
+    /**
+     * Properties of the primary key or unique index the row conflicts on, defaults to the primary key.
+     */
+    conflictTarget?: string[];
+    /**
+     * Properties updated when the row exists, defaults to all columns that are not part of the
+     * conflict target or the primary key.
+     */
+    update?: string[];
+}
+
+/**
+ * Conflict clause of an insert query.
+ */
+export interface InsertConflict {
+    action: ConflictAction;
+    /**
+     * Columns the row conflicts on, only used by `update`.
+     */
+    target?: string[];
+    /**
+     * Columns updated when the row exists, only used by `update`.
+     */
+    update?: string[];
 }
 
 export interface WhereClause {
@@ -114,7 +386,7 @@ export interface HavingClause {
     };
 }
 
-export interface SelectQuery extends Partial<WhereClause>, Partial<OrderClause> {
+export interface SelectQuery extends Partial<WhereClause>, Partial<OrderClause>, FindOptions {
     limit?: number;
     offset?: number;
 }
@@ -122,116 +394,529 @@ export interface SelectQuery extends Partial<WhereClause>, Partial<OrderClause>
 export interface AggregateSelectQuery extends SelectQuery, AggregateClause, GroupByClause, Partial<HavingClause> {
 }
 
+export interface PaginateOptions extends Partial<WhereClause>, FindOptions {
+    /**
+     * Properties rows are sorted by, e.g. `['createdAt', ['score', 'desc']]`. The primary key is added
+     * to break ties. Sort properties should not be nullable, rows with null values are skipped.
+     */
+    orderBy?: (string | [string, 'asc' | 'desc'])[];
+    pageSize: number;
+    /**
+     * `nextCursor` of the previous page, returns the rows after it.
+     */
+    after?: string;
+    /**
+     * `prevCursor` of the next page, returns the rows before it.
+     */
+    before?: string;
+}
+
+export interface Page<T> {
+    items: T[];
+    /**
+     * Cursor of the next page, `null` when this is the last page.
+     */
+    nextCursor: string | null;
+    /**
+     * Cursor of the previous page, `null` when this is the first page.
+     */
+    prevCursor: string | null;
+}
+
 export type PrimitiveTypes = number | string | boolean;
 
 // delete doesn't require a where clause
 export type DeleteQuery = Partial<SelectQuery>;
 
-export class Model {
-    constructor(public tableName: string, public columns: TableColumn[], public readonly database: string) {}
+interface TransactionState {
+    parent?: TransactionState;
+    depth: number;
+    /**
+     * Whether the transaction was committed or rolled back.
+     */
+    done: boolean;
+    /**
+     * Whether the transaction was rolled back because the transaction it was started in finished first.
+     */
+    aborted?: boolean;
+    /**
+     * Resolves when the transaction is committed or rolled back.
+     */
+    finished: Promise<void>;
+    finish: () => void;
+    /**
+     * Restores instance state (`_new`, auto increment ids) changed inside the transaction.
+     */
+    undo: (() => void)[];
+    /**
+     * Whether any rows were written inside the transaction.
+     */
+    hasChanges: boolean;
+    /**
+     * Called when the outer transaction commits, e.g. to emit change events.
+     */
+    afterCommit: (() => void)[];
 }
 
-const gitBranch = new TextDecoder().decode(
-    new Deno.Command('git', {
-        args: ['branch', '--show-current'],
-        stdout: 'piped',
-    }).outputSync().stdout,
-).trim();
-
-const gitCommit = new TextDecoder().decode(
-    new Deno.Command('git', {
-        args: ['rev-parse', 'HEAD'],
-        stdout: 'piped',
-    }).outputSync().stdout,
-).trim();
+export type ChangeType = 'insert' | 'update' | 'delete';
 
-export class SqliteOrm {
-    public db: SqliteDatabase;
-    private hasChangesSinceBackup = false;
-    private backupsEnabled = false;
-    private hasModelChanges = false;
-    private attachedDatabases: string[] = [];
+export interface ModelOptions {
+    /**
+     * Name of table in database, defaults to the class name.
+     */
+    tableName?: string;
+    database?: string;
+    /**
+     * Records every change in a `<table>_history` table, see `orm.history()`.
+     */
+    audit?: boolean;
+}
 
-    public models: Record<string, Model> = {};
+/**
+ * Recorded change of an audited model.
+ */
+export interface HistoryEntry<T extends SqlTable = SqlTable> {
+    operation: ChangeType;
+    at: Date;
+    /**
+     * Actor set with `orm.withActor()` when the change was made.
+     */
+    actor: string | null;
+    /**
+     * Values of the row after the change, or before it for deletes.
+     */
+    values: Partial<T>;
+}
 
-    private tempModelData: TableColumn[] = [];
-    private ignoredColumns: string[] = [];
+/**
+ * Row change emitted after the change was committed, see `orm.on()`.
+ */
+export interface ChangeEvent<T extends SqlTable = SqlTable> {
+    type: ChangeType;
+    /**
+     * Name of the model.
+     */
+    model: string;
+    /**
+     * Primary key of the row, keyed by property.
+     */
+    key: Partial<T>;
+    /**
+     * Values before the change, not set for inserts and for updates of objects that were not loaded by the orm.
+     */
+    old?: Partial<T>;
+    /**
+     * Values after the change, not set for deletes.
+     */
+    new?: Partial<T>;
+}
 
-    private opts: OrmOptions;
-    private lastModels: Record<string, Model> = {};
+interface ChangeListener {
+    type: ChangeType;
+    model: string;
+    handler: (event: ChangeEvent<any>) => void;
+}
 
-    constructor(options: OrmOptions) {
-        this.opts = options;
-        if (this.opts.backupDir) {
-            this.backupsEnabled = true;
-            try {
-                Deno.statSync(this.opts.backupDir);
-            } catch (_e) {
-                Deno.mkdirSync(this.opts.backupDir);
-            }
-        }
+export interface PendingModelChanges {
+    /**
+     * Changes to models since they were last saved.
+     */
+    changes: string[];
+    /**
+     * Migrations of tables that do not match their model, keyed by model name.
+     */
+    migrations: Record<string, TableMigration>;
+    /**
+     * Models of the migrated tables, passed to `buildMigrationFile()`.
+     */
+    models: MigrationModels;
+}
 
-        if (this.opts.backupUseGitCommit && this.backupsEnabled) {
-            try {
-                Deno.statSync(join(this.opts.backupDir!, gitBranch));
-            } catch (_e) {
-                Deno.mkdirSync(join(this.opts.backupDir!, gitBranch));
-            }
-        }
+export interface ValidationRule {
+    /**
+     * Validated property.
+     */
+    property: string;
+    /**
+     * Name of the rule, e.g. `min`.
+     */
+    rule: string;
+    /**
+     * Returns why the value is invalid, `undefined` when it is valid. Not called for null values.
+     */
+    validate: (value: any, obj: SqlTable) => string | undefined;
+    /**
+     * Returns the SQL expression of the rule for a CHECK constraint, only for rules sqlite can check.
+     * Returns `undefined` when the rule cannot be checked for columns of the type.
+     */
+    check?: (column: string, type: ColumnType) => string | undefined;
+}
 
-        if (this.opts.backupInterval && this.backupsEnabled) {
-            setInterval(() => {
-                this.doBackup('auto');
-            }, this.opts.backupInterval);
-        }
+export type HookName = 'beforeInsert' | 'beforeUpdate' | 'afterSave' | 'beforeDelete' | 'afterLoad';
 
-        SqliteOrm.logInfo(this.opts, 'opening database');
+/**
+ * Methods a model can implement to run code when its rows are written or read.
+ */
+export interface ModelHooks {
+    /**
+     * Called before a new object is inserted, changes to the object are saved.
+     */
+    beforeInsert?(): void;
+    /**
+     * Called before an existing object is updated, changes to the object are saved.
+     */
+    beforeUpdate?(): void;
+    /**
+     * Called after an object was inserted or updated.
+     */
+    afterSave?(): void;
+    /**
+     * Called before an object is deleted with `orm.remove()` or `orm.deleteMany()`.
+     */
+    beforeDelete?(): void;
+    /**
+     * Called after an object was loaded from the database.
+     */
+    afterLoad?(): void;
+}
 
-        this.db = new SqliteDatabase(options.dbPath, options.openOptions);
-        this.lastModels = ModelReader.read(options.dbPath);
-    }
+/**
+ * Hooks called for objects of every model, after the hooks of the model.
+ */
+export type OrmSubscriber = { [K in HookName]?: (obj: SqlTable) => void };
+
+/**
+ * Stored and current value of a changed property, see `orm.changes()`.
+ */
+export interface ColumnChange {
+    from: unknown;
+    to: unknown;
+}
 
-    //#region table logic
+export interface QueryCacheStats {
+    /**
+     * Number of cached results.
+     */
+    size: number;
+    hits: number;
+    /**
+     * Calls with the `cache` option that ran the query.
+     */
+    misses: number;
+    /**
+     * Results dropped because their table was written to.
+     */
+    invalidations: number;
+}
 
-    public findOne<T extends SqlTable>(table: new () => T, idOrQuery: PrimitiveTypes | SelectQuery): T {
-        if (this.models[table.name] == null) throw new DBModelNotFound(table);
+interface QueryCacheEntry {
+    table: string;
+    value: unknown;
+    expires: number;
+}
+
+export interface StatementCacheStats {
+    /**
+     * Number of cached statements.
+     */
+    size: number;
+    /**
+     * Queries that reused a cached statement.
+     */
+    hits: number;
+    /**
+     * Queries that prepared a new statement.
+     */
+    misses: number;
+}
 
-        const col = this.models[table.name].columns.find((c) => c.isPrimaryKey);
-        if (col == null) throw new DBInvalidTable(`${this.models[table.name].tableName} does not have primary key`);
-        if (typeof idOrQuery !== 'object' && !isProvidedTypeValid(idOrQuery, col)) throw new DBInvalidData(`${this.models[table.name].tableName}.${col.name} has a different type`);
+export class Model {
+    /**
+     * Whether changes are recorded in the history table of the model.
+     */
+    public audit?: boolean;
 
-        const query = buildSelectQuery(
-            typeof idOrQuery === 'object' ? { ...idOrQuery, limit: 1 } : {
-                where: {
-                    clause: `${col.mappedTo ?? col.name} = ?`,
-                    values: [this.serialize(idOrQuery, col.type)],
-                },
-                limit: 1,
-            },
-            this.models[table.name],
-        );
+    constructor(public tableName: string, public columns: TableColumn[], public readonly database: string, public relations: Relation[] = [], public foreignKeys: ForeignKey[] = [], public indexes: TableIndex[] = []) {}
+}
 
-        const found = this.db.prepare(query.query).get(...query.params);
-        if (!found) {
-            if (typeof idOrQuery === 'object') {
-                throw new DBNotFound(`query did not match any items in ${table.name}`);
-            } else {
-                throw new DBNotFound(`row with ${col.name} = ${idOrQuery} was not found in table ${table.name}`);
+// keeps `IN (...)` lists of relation queries under sqlite's variable limit
+const relationChunkSize = 500;
+
+function buildIndex(model: Model, properties: string[], options: IndexOptions = {}): TableIndex {
+    const columns = properties.map((p) => {
+        const col = model.columns.find((c) => c.name === p);
+        if (col == null) throw new DBInvalidTable(`${model.tableName}: cannot index ${p}, it is not a column`);
+        return col.mappedTo ?? col.name;
+    });
+
+    return {
+        name: options.name ?? `${model.tableName}_${columns.join('_')}_${options.unique ? 'unique' : 'idx'}`,
+        columns,
+        unique: options.unique ?? false,
+        where: options.where,
+    };
+}
+
+/**
+ * Converts sqlite unique constraint errors into `DBUniqueViolation`.
+ */
+function toUniqueViolation(e: unknown) {
+    const match = e instanceof Error ? e.message.match(/UNIQUE constraint failed: (.+)$/) : null;
+    if (match == null) return e;
+
+    const columns = match[1].split(', ').map((c) => c.trim());
+    return new DBUniqueViolation(columns[0].split('.')[0], columns.map((c) => c.split('.').slice(1).join('.')), { cause: e });
+}
+
+/**
+ * Returns the primary key of a model that is referenced by relations, which need a single key column.
+ */
+function singlePrimaryKey(model: Model, name: string) {
+    const keys = model.columns.filter((c) => c.isPrimaryKey);
+    if (keys.length === 0) throw new DBInvalidTable(`${name} does not have primary key`);
+    if (keys.length > 1) throw new DBInvalidTable(`${name} has a composite primary key, relations need a single key column`);
+    return keys[0];
+}
+
+/**
+ * Table and column a foreign key to the primary key of `target` references.
+ */
+function foreignKeyTarget(target: Model, targetName: string): Pick<ForeignKey, 'table' | 'references'> {
+    const primaryKey = singlePrimaryKey(target, targetName);
+    return { table: target.tableName, references: primaryKey.mappedTo ?? primaryKey.name };
+}
+
+/**
+ * Current time in the format of a timestamp column, milliseconds for numbers and ISO 8601 for strings.
+ */
+function timestamp(col: TableColumn) {
+    switch (col.type) {
+        case 'date':
+            return new Date();
+        case 'string':
+            return new Date().toISOString();
+        default:
+            return Date.now();
+    }
+}
+
+/**
+ * Infers the column type of a property from its default value.
+ * @param numberType type of number values
+ */
+function inferType(value: unknown, numberType: 'number' | 'integer'): ColumnType {
+    const registered = inferColumnType(value);
+    if (registered != null) return registered;
+    if (value instanceof Date) return 'date';
+    switch (typeof value) {
+        case 'object':
+            return 'json';
+        case 'number':
+            return numberType;
+        default:
+            return typeof value as ColumnType;
+    }
+}
+
+function isColumnValue(value: unknown) {
+    return ['string', 'boolean', 'number', 'object', 'bigint'].includes(typeof value);
+}
+
+function encodeCursor(keys: unknown[]) {
+    return encodeBase64Url(JSON.stringify(keys, (_key, value) => typeof value === 'bigint' ? value.toString() : value));
+}
+
+function decodeCursor(cursor: string, length: number): unknown[] {
+    let keys;
+    try {
+        keys = JSON.parse(new TextDecoder().decode(decodeBase64Url(cursor)));
+    } catch (e) {
+        throw new DBInvalidData(`invalid cursor: ${cursor}`, { cause: e });
+    }
+    if (!(keys instanceof Array) || keys.length !== length) throw new DBInvalidData(`cursor does not match the sort order: ${cursor}`);
+    return keys;
+}
+
+/**
+ * Compares serialized column values.
+ */
+function sameValue(a: unknown, b: unknown) {
+    if (a instanceof Uint8Array && b instanceof Uint8Array) return a.length === b.length && a.every((v, i) => v === b[i]);
+    // integers are read as numbers unless they don't fit in one
+    if (typeof a === 'bigint' && typeof b === 'number') return Number.isInteger(b) && BigInt(b) === a;
+    if (typeof a === 'number' && typeof b === 'bigint') return Number.isInteger(a) && BigInt(a) === b;
+    return a === b;
+}
+
+const AsyncFunction = (async () => {}).constructor;
+
+/**
+ * Calls every function, errors are rethrown outside the caller so the committed write still succeeds.
+ */
+function runAll(fns: (() => void)[]) {
+    for (const fn of fns) {
+        try {
+            fn();
+        } catch (e) {
+            queueMicrotask(() => {
+                throw e;
+            });
+        }
+    }
+}
+
+function historyTableName(model: Model) {
+    return `${model.tableName}_history`;
+}
+
+function joinKeyName(modelName: string) {
+    return `${modelName[0].toLowerCase()}${modelName.slice(1)}Id`;
+}
+
+const gitBranch = new TextDecoder().decode(
+    new Deno.Command('git', {
+        args: ['branch', '--show-current'],
+        stdout: 'piped',
+    }).outputSync().stdout,
+).trim();
+
+const gitCommit = new TextDecoder().decode(
+    new Deno.Command('git', {
+        args: ['rev-parse', 'HEAD'],
+        stdout: 'piped',
+    }).outputSync().stdout,
+).trim();
+
+export class SqliteOrm {
+    /**
+     * When disabled, `modelsLoaded()` does not migrate tables. Changes can be inspected with
+     * `orm.pendingModelChanges()` and applied with `orm.applyModelChanges()`.
+     */
+    public static autoMigrate = true;
+
+    public db: SqliteDatabase;
+    private hasChangesSinceBackup = false;
+    private backupsEnabled = false;
+    private hasModelChanges = false;
+    private modelChanges: string[] = [];
+    private attachedDatabases: string[] = [];
+
+    public models: Record<string, Model> = {};
+
+    private tempModelData: TableColumn[] = [];
+    private tempRelations: Relation[] = [];
+    private tempIndexes: (IndexOptions & { properties: string[] })[] = [];
+    private tempRules: ValidationRule[] = [];
+    // validation rules keyed by model name, kept out of models since they are saved as JSON
+    private rules: Record<string, ValidationRule[]> = {};
+    private ignoredColumns: string[] = [];
+
+    private opts: OrmOptions;
+    private lastModels: Record<string, Model> = {};
+    // innermost transaction of each async context, so that concurrent async transactions are kept apart
+    private transactionContext = new AsyncLocalStorage<TransactionState>();
+    // innermost transaction open on the connection
+    private openTransaction?: TransactionState;
+    // prepared statements keyed by query, ordered from least to most recently used
+    private statements = new Map<string, Statement>();
+    private statementHits = 0;
+    private subscribers: OrmSubscriber[] = [];
+    private changeListeners: ChangeListener[] = [];
+    private actors = new AsyncLocalStorage<string>();
+    private historyModels = new WeakSet<Model>();
+    private statementMisses = 0;
+    // stored column values of objects when they were last loaded or saved, keyed by column name
+    private snapshots = new WeakMap<SqlTable, Record<string, unknown>>();
+    // results of queries with the cache option, ordered from least to most recently used
+    private queryCache = new Map<string, QueryCacheEntry>();
+    private queryCacheHits = 0;
+    private queryCacheMisses = 0;
+    private queryCacheInvalidations = 0;
+
+    constructor(options: OrmOptions) {
+        this.opts = options;
+        if (this.opts.backupDir) {
+            this.backupsEnabled = true;
+            try {
+                Deno.statSync(this.opts.backupDir);
+            } catch (_e) {
+                Deno.mkdirSync(this.opts.backupDir);
             }
         }
 
-        const parsed = new table();
-        for (const col of this.models[table.name].columns) {
-            (parsed as Record<string, unknown>)[col.name] = this.deserialize(found[col.mappedTo ?? col.name], col.type);
+        if (this.opts.backupUseGitCommit && this.backupsEnabled) {
+            try {
+                Deno.statSync(join(this.opts.backupDir!, gitBranch));
+            } catch (_e) {
+                Deno.mkdirSync(join(this.opts.backupDir!, gitBranch));
+            }
+        }
+
+        if (this.opts.backupInterval && this.backupsEnabled) {
+            setInterval(() => {
+                this.doBackup('auto');
+            }, this.opts.backupInterval);
+        }
+
+        SqliteOrm.logInfo(this.opts, 'opening database');
+
+        this.db = new SqliteDatabase(options.dbPath, options.openOptions);
+        this.db.exec(`PRAGMA foreign_keys = ${this.opts.foreignKeys ?? true ? 'ON' : 'OFF'}`);
+        this.lastModels = ModelReader.read(options.dbPath);
+    }
+
+    //#region table logic
+
+    /**
+     * Finds a row by its primary key or by a query. Models with a composite primary key are found
+     * with a key object, e.g. `{ guildId, userId }`.
+     */
+    public findOne<T extends SqlTable>(table: new () => T, idOrQuery: PrimitiveTypes | Partial<T> | SelectQuery, options: FindOptions = {}): T {
+        const model = this.models[table.name];
+        if (model == null) throw new DBModelNotFound(table);
+
+        const keys = model.columns.filter((c) => c.isPrimaryKey);
+        if (keys.length === 0) throw new DBInvalidTable(`${model.tableName} does not have primary key`);
+
+        const isQuery = typeof idOrQuery === 'object' && !keys.some((c) => c.name in idOrQuery);
+        let query: SelectQuery;
+        let notFound = `query did not match any items in ${table.name}`;
+        if (isQuery) {
+            query = { ...idOrQuery as SelectQuery, limit: 1 };
+        } else {
+            if (typeof idOrQuery !== 'object' && keys.length > 1) throw new DBInvalidData(`${model.tableName} has a composite primary key, find it with an object of ${keys.map((c) => c.name).join(', ')}`);
+            const key = (typeof idOrQuery === 'object' ? idOrQuery : { [keys[0].name]: idOrQuery }) as Record<string, unknown>;
+
+            for (const col of keys) {
+                if (key[col.name] == null) throw new DBInvalidData(`${model.tableName}.${col.name} is missing from the primary key`);
+                if (!isProvidedTypeValid(key[col.name], col)) throw new DBInvalidData(`${model.tableName}.${col.name} has a different type`);
+            }
+
+            query = {
+                where: {
+                    clause: keys.map((c) => `"${c.mappedTo ?? c.name}" = ?`).join(' AND '),
+                    values: keys.map((c) => this.serialize(key[c.name], c.type)),
+                },
+                limit: 1,
+            };
+            notFound = `row with ${keys.map((c) => `${c.name} = ${key[c.name]}`).join(', ')} was not found in table ${table.name}`;
         }
-        parsed._new = false;
+
+        const builtQuery = buildSelectQuery(this.excludeDeleted(model, query, options.withDeleted ?? query.withDeleted), model);
+        const found = this.cached(model, builtQuery, options.cache ?? query.cache, () => this.withStatement(builtQuery.query, (statement) => statement.get(...builtQuery.params)));
+        if (!found) throw new DBNotFound(notFound);
+
+        const parsed = this.parseRow(table, found);
+
+        const include = options.include ?? (isQuery ? (idOrQuery as SelectQuery).include : undefined);
+        if (include) this.loadRelations(table, [parsed], include);
 
         return parsed;
     }
 
-    public findOneOptional<T extends SqlTable>(table: new () => T, idOrQuery: PrimitiveTypes | SelectQuery): T {
+    public findOneOptional<T extends SqlTable>(table: new () => T, idOrQuery: PrimitiveTypes | Partial<T> | SelectQuery, options: FindOptions = {}): T {
         try {
-            return this.findOne(table, idOrQuery);
+            return this.findOne(table, idOrQuery, options);
         } catch (e) {
             if (e instanceof DBNotFound) {
                 return new table();
@@ -243,72 +928,1536 @@ export class SqliteOrm {
     public findMany<T extends SqlTable>(table: new () => T, query: SelectQuery): T[] {
         if (this.models[table.name] == null) throw new DBModelNotFound(table);
 
-        const builtQuery = buildSelectQuery(query, this.models[table.name]);
+        const builtQuery = buildSelectQuery(this.excludeDeleted(this.models[table.name], query, query.withDeleted), this.models[table.name]);
 
-        const data = this.db.prepare(builtQuery.query).all(...builtQuery.params);
+        const data = this.cached(this.models[table.name], builtQuery, query.cache, () => this.withStatement(builtQuery.query, (statement) => statement.all(...builtQuery.params)));
         const parsedAll: T[] = [];
 
         for (const datum of data) {
-            const parsed = new table();
-            for (const col of this.models[table.name].columns) {
-                (parsed as Record<string, unknown>)[col.name] = this.deserialize(datum[col.mappedTo ?? col.name], col.type);
-            }
-            parsed._new = false;
-            parsedAll.push(parsed);
+            parsedAll.push(this.parseRow(table, datum));
         }
 
+        if (query.include) this.loadRelations(table, parsedAll, query.include);
+
         return parsedAll;
     }
 
-    public countWhere<T extends SqlTable>(table: new () => T, query: WhereClause): number {
+    /**
+     * Iterates over matching rows, rows are read and parsed one at a time so that large tables
+     * don't have to fit in memory. Relations cannot be included.
+     */
+    public *iterate<T extends SqlTable>(table: new () => T, query: SelectQuery = {}): Generator<T> {
+        if (this.models[table.name] == null) throw new DBModelNotFound(table);
+        if (query.include) throw new DBInvalidData('iterate() cannot include relations, use findManyChunked()');
+
+        const builtQuery = buildSelectQuery(this.excludeDeleted(this.models[table.name], query, query.withDeleted), this.models[table.name]);
+
+        // not cached, other queries can reuse a cached statement while this one is being iterated
+        const statement = this.db.prepare(builtQuery.query);
+        try {
+            for (const datum of statement.iter(...builtQuery.params)) {
+                yield this.parseRow(table, datum);
+            }
+        } finally {
+            statement.finalize();
+        }
+    }
+
+    /**
+     * Loads matching rows in chunks ordered by the primary key. Each chunk continues after the key
+     * of the last row (keyset pagination), so rows are not skipped when earlier rows are deleted.
+     * @param size number of rows per chunk
+     * @param cb called with each chunk, the next chunk is loaded after it resolves
+     */
+    public async findManyChunked<T extends SqlTable>(table: new () => T, query: Pick<SelectQuery, 'where' | 'include' | 'withDeleted'>, size: number, cb: (rows: T[]) => void | Promise<void>) {
+        const model = this.models[table.name];
+        if (model == null) throw new DBModelNotFound(table);
+        if (!Number.isSafeInteger(size) || size <= 0) throw new DBInvalidData(`chunk size should be a positive integer, got ${size}`);
+
+        const keys = model.columns.filter((c) => c.isPrimaryKey);
+        if (keys.length === 0) throw new DBInvalidTable(`${model.tableName} does not have primary key`);
+        const keyColumns = keys.map((c) => `"${c.mappedTo ?? c.name}"`).join(', ');
+
+        let last: T | undefined;
+        while (true) {
+            const clauses: string[] = [];
+            const values: unknown[] = [];
+            if (query.where) {
+                clauses.push(`(${query.where.clause})`);
+                values.push(...(query.where.values ?? []));
+            }
+            if (last) {
+                clauses.push(`(${keyColumns}) > (${keys.map(() => '?').join(', ')})`);
+                values.push(...keys.map((c) => this.serialize((last as SqlTable & Record<string, unknown>)[c.name], c.type)));
+            }
+
+            const rows = this.findMany(table, {
+                where: clauses.length > 0 ? { clause: clauses.join(' AND '), values } : undefined,
+                order: { by: keyColumns },
+                limit: size,
+                include: query.include,
+                withDeleted: query.withDeleted,
+            });
+            if (rows.length === 0) break;
+
+            await cb(rows);
+            if (rows.length < size) break;
+            last = rows[rows.length - 1];
+        }
+    }
+
+    /**
+     * Loads a page of rows with keyset pagination, pages continue after the sort values of the last row
+     * instead of skipping rows with an offset.
+     */
+    public paginate<T extends SqlTable>(table: new () => T, options: PaginateOptions): Page<T> {
+        const model = this.models[table.name];
+        if (model == null) throw new DBModelNotFound(table);
+        if (!Number.isSafeInteger(options.pageSize) || options.pageSize <= 0) throw new DBInvalidData(`page size should be a positive integer, got ${options.pageSize}`);
+        if (options.after != null && options.before != null) throw new DBInvalidData('after and before cannot be used together');
+
+        const sort = (options.orderBy ?? []).map((o) => {
+            const [prop, direction] = typeof o === 'string' ? [o, 'asc'] : o;
+            const col = model.columns.find((c) => c.name === prop);
+            if (col == null) throw new DBInvalidData(`${model.tableName}.${prop} is not a column`);
+            return { col, desc: direction === 'desc' };
+        });
+        for (const col of model.columns.filter((c) => c.isPrimaryKey)) {
+            if (!sort.find((s) => s.col === col)) sort.push({ col, desc: false });
+        }
+        if (sort.length === 0) throw new DBInvalidTable(`${model.tableName} does not have primary key`);
+
+        const backwards = options.before != null;
+        const cursor = options.after ?? options.before;
+
+        const clauses: string[] = [];
+        const values: unknown[] = [];
+        if (options.where) {
+            clauses.push(`(${options.where.clause})`);
+            values.push(...(options.where.values ?? []));
+        }
+        if (cursor != null) {
+            const keys = decodeCursor(cursor, sort.length);
+            // (a > ?) OR (a = ? AND b > ?) OR ..., comparisons flip for descending columns and when going backwards
+            const alternatives = sort.map((s, i) => {
+                const equal = sort.slice(0, i).map((p) => `"${p.col.mappedTo ?? p.col.name}" = ?`);
+                values.push(...keys.slice(0, i + 1));
+                return `(${[...equal, `"${s.col.mappedTo ?? s.col.name}" ${s.desc !== backwards ? '<' : '>'} ?`].join(' AND ')})`;
+            });
+            clauses.push(`(${alternatives.join(' OR ')})`);
+        }
+
+        const items = this.findMany(table, {
+            where: clauses.length > 0 ? { clause: clauses.join(' AND '), values } : undefined,
+            order: { by: sort.map((s) => `"${s.col.mappedTo ?? s.col.name}" ${s.desc !== backwards ? 'DESC' : 'ASC'}`).join(', ') },
+            // one more row to know whether there is another page
+            limit: options.pageSize + 1,
+            include: options.include,
+            withDeleted: options.withDeleted,
+            cache: options.cache,
+        });
+
+        const hasMore = items.length > options.pageSize;
+        if (hasMore) items.pop();
+        if (backwards) items.reverse();
+
+        const cursorOf = (row: T | undefined) => row == null ? null : encodeCursor(sort.map((s) => this.serialize((row as SqlTable & Record<string, unknown>)[s.col.name], s.col.type)));
+        return {
+            items,
+            nextCursor: backwards || hasMore ? cursorOf(items.at(-1)) : null,
+            prevCursor: backwards ? (hasMore ? cursorOf(items[0]) : null) : (cursor != null ? cursorOf(items[0]) : null),
+        };
+    }
+
+    private parseRow<T extends SqlTable>(table: new () => T, row: Record<string, unknown>): T {
+        const parsed = new table();
+        for (const col of this.models[table.name].columns) {
+            (parsed as Record<string, unknown>)[col.name] = this.deserialize(row[col.mappedTo ?? col.name], col.type);
+        }
+        parsed._new = false;
+        this.snapshots.set(parsed, row);
+        this.runHook('afterLoad', parsed);
+        return parsed;
+    }
+
+    public countWhere<T extends SqlTable>(table: new () => T, query: WhereClause & SoftDeleteOptions & CacheOptions): number {
+        if (this.models[table.name] == null) throw new DBModelNotFound(table);
+
+        const builtQuery = buildCountWhereQuery(this.excludeDeleted(this.models[table.name], query, query.withDeleted), this.models[table.name]);
+        return this.cached(this.models[table.name], builtQuery, query.cache, () => this.withStatement(builtQuery.query, (statement) => statement.get<{ 'COUNT(*)': number }>(...builtQuery.params))!['COUNT(*)']);
+    }
+
+    public aggregateSelect<Row extends Array<any>, T extends SqlTable = SqlTable>(table: new () => T, query: AggregateSelectQuery): Row[] {
+        if (this.models[table.name] == null) throw new DBModelNotFound(table);
+
+        const builtQuery = buildAggregateQuery(this.excludeDeleted(this.models[table.name], query, query.withDeleted), this.models[table.name]);
+        // rows are copied, so that changing them doesn't change the cached result
+        return this.cached(this.models[table.name], builtQuery, query.cache, () => this.withStatement(builtQuery.query, (statement) => statement.values<Row>(...builtQuery.params))).map((row) => [...row] as Row);
+    }
+
+    /**
+     * Starts a unit of work with its own identity map, changes are written by `session.flush()`.
+     */
+    public session(): Session {
+        return new Session(this);
+    }
+
+    /**
+     * Starts a typed query on a model.
+     * @param table model to query
+     */
+    public query<T extends SqlTable>(table: new () => T): QueryBuilder<T> {
+        if (this.models[table.name] == null) throw new DBModelNotFound(table);
+        return new QueryBuilder(this, table);
+    }
+
+    /**
+     * Inserts a new object or updates an existing one.
+     */
+    public save<T extends SqlTable>(obj: T, options: SaveOptions = {}): T {
+        return this.audited(obj.constructor.name, () => this.saveObject(obj, options));
+    }
+
+    /**
+     * Saves objects in one transaction, rows of the same model reuse one prepared statement.
+     * Auto increment keys are set on the inserted objects.
+     */
+    public saveMany<T extends SqlTable>(objs: T[], options: SaveOptions = {}): T[] {
+        const statements = new Map<string, Statement>();
+        try {
+            this.transaction(() => {
+                for (const obj of objs) {
+                    this.saveObject(obj, options, statements);
+                }
+            });
+        } finally {
+            for (const statement of statements.values()) {
+                statement.finalize();
+            }
+        }
+
+        return objs;
+    }
+
+    /**
+     * Inserts rows in one transaction, see `saveMany()`.
+     * @param rows property values of each row, missing properties keep their default value
+     * @returns the inserted objects
+     */
+    public insertMany<T extends SqlTable>(table: new () => T, rows: Partial<T>[], options: SaveOptions = {}): T[] {
         if (this.models[table.name] == null) throw new DBModelNotFound(table);
+        return this.saveMany(rows.map((row) => Object.assign(new table(), row, { _new: true })), options);
+    }
+
+    /**
+     * @param statements prepared statements reused by `saveMany()`, keyed by query
+     */
+    private saveObject<T extends SqlTable>(obj: T, options: SaveOptions, statements?: Map<string, Statement>): T {
+        const model = this.models[obj.constructor.name];
+        if (model == null) throw new DBModelNotFound(obj.constructor as typeof SqlTable);
+
+        if (obj._new) {
+            const conflict: InsertConflict | undefined = options.onConflict === 'update' ? this.upsertConflict(model, {}) : options.onConflict ? { action: options.onConflict } : undefined;
+            return this.insert(obj, model, conflict, statements);
+        }
+
+        // unchanged objects are not written, so timestamps and hooks are skipped as well
+        if (this.snapshots.has(obj) && this.changedColumns(obj, model).length === 0) return obj;
+
+        this.setTimestamps(obj, model, false);
+        this.runHook('beforeUpdate', obj);
+        this.validateObject(obj, model);
+        const changed = this.changedColumns(obj, model);
+        if (this.snapshots.has(obj) && changed.every((c) => c.isPrimaryKey || c.version)) {
+            throw new DBInvalidData(`only ${changed.map((c) => c.name).join(', ')} of ${obj.constructor.name} changed, the primary key and version cannot be updated`);
+        }
+        const row = this.buildRow(obj, model);
+        // only changed columns are written, so concurrent writes to other columns are kept
+        const data = Object.fromEntries(model.columns.filter((c) => c.isPrimaryKey || c.version || changed.includes(c)).map((c) => [c.mappedTo ?? c.name, row[c.mappedTo ?? c.name]]));
+        const builtQuery = buildUpdateQuery(model, data);
+        const changes = this.write(builtQuery.query, builtQuery.params, statements);
+        const version = model.columns.find((c) => c.version);
+        if (changes === 0 && (version || (options.strict ?? this.opts.strict))) {
+            const keys = model.columns.filter((c) => c.isPrimaryKey);
+            const row = `row with ${keys.map((c) => `${c.name} = ${(obj as Record<string, unknown>)[c.name]}`).join(', ')}`;
+            if (version) throw new DBConcurrentModification(`${row} in table ${obj.constructor.name} was modified or deleted since version ${(obj as Record<string, unknown>)[version.name]}`);
+            throw new DBNotFound(`${row} was not found in table ${obj.constructor.name}`);
+        }
+        const old = this.snapshots.get(obj);
+        const bumped = this.bumpVersion(obj, model);
+        this.setSnapshot(obj, { ...old, ...data, ...bumped });
+        this.markChanged(model);
+        this.recordChange(obj.constructor.name, 'update', old, { ...row, ...bumped });
+        this.runHook('afterSave', obj);
+
+        return obj;
+    }
+
+    /**
+     * Inserts an object, or updates the existing row when it conflicts with the primary key or
+     * a unique index (`INSERT ... ON CONFLICT DO UPDATE`).
+     */
+    public upsert<T extends SqlTable>(obj: T, options: UpsertOptions = {}): T {
+        const model = this.models[obj.constructor.name];
+        if (model == null) throw new DBModelNotFound(obj.constructor as typeof SqlTable);
+
+        return this.audited(obj.constructor.name, () => this.insert(obj, model, this.upsertConflict(model, options)));
+    }
+
+    private upsertConflict(model: Model, options: UpsertOptions): InsertConflict {
+        const columnName = (prop: string) => {
+            const col = model.columns.find((c) => c.name === prop);
+            if (col == null) throw new DBInvalidData(`${model.tableName}.${prop} is not a column`);
+            return col.mappedTo ?? col.name;
+        };
+
+        const target = (options.conflictTarget ?? model.columns.filter((c) => c.isPrimaryKey).map((c) => c.name)).map(columnName);
+        const update = options.update?.map(columnName) ?? model.columns.filter((c) => !c.isPrimaryKey && !target.includes(c.mappedTo ?? c.name)).map((c) => c.mappedTo ?? c.name);
+
+        return { action: 'update', target, update };
+    }
+
+    private insert<T extends SqlTable>(obj: T, model: Model, conflict?: InsertConflict, statements?: Map<string, Statement>): T {
+        this.setTimestamps(obj, model, true);
+        this.runHook('beforeInsert', obj);
+        this.validateObject(obj, model);
+        const builtData = this.buildRow(obj, model);
+        const incrementPrimaryKey = model.columns.find((c) => c.isPrimaryKey && c.autoIncrement);
+        const oldId = incrementPrimaryKey ? (obj as Record<string, unknown>)[incrementPrimaryKey.name] : undefined;
+
+        let existing: Record<string, unknown> | undefined;
+        let inserted: Record<string, unknown>;
+        if (conflict) {
+            // an unset auto increment key is left to sqlite
+            if (incrementPrimaryKey && oldId === incrementPrimaryKey.defaultValue) builtData[incrementPrimaryKey.mappedTo ?? incrementPrimaryKey.name] = null;
+            // the conflicting row is only read for change events
+            if (conflict.action !== 'ignore' && this.tracksChanges(obj.constructor.name)) existing = this.findConflictingRow(model, builtData, conflict);
+
+            const builtQuery = buildInsertQuery(model, builtData, conflict);
+            const row = this.writeReturning(builtQuery.query, builtQuery.params, statements);
+            // the row was ignored
+            if (row == null) return obj;
+
+            if (incrementPrimaryKey) (obj as Record<string, unknown>)[incrementPrimaryKey.name] = this.deserialize(row[incrementPrimaryKey.mappedTo ?? incrementPrimaryKey.name], incrementPrimaryKey.type);
+            // an existing row that was updated has a new version
+            const version = model.columns.find((c) => c.version);
+            if (version) {
+                const old = (obj as Record<string, unknown>)[version.name];
+                (obj as Record<string, unknown>)[version.name] = this.deserialize(row[version.mappedTo ?? version.name], version.type);
+                this.onRollback(() => (obj as Record<string, unknown>)[version.name] = old);
+            }
+            // the row can differ from the object when an existing row was updated
+            this.setSnapshot(obj, row);
+            inserted = row;
+        } else {
+            const builtQuery = buildInsertQuery(model, builtData);
+            this.write(builtQuery.query, builtQuery.params, statements);
+
+            if (incrementPrimaryKey) {
+                (obj as Record<string, unknown>)[incrementPrimaryKey.name] = this.db.lastInsertRowId;
+                builtData[incrementPrimaryKey.mappedTo ?? incrementPrimaryKey.name] = this.db.lastInsertRowId;
+            }
+            this.setSnapshot(obj, builtData);
+            inserted = builtData;
+        }
+
+        const wasNew = obj._new;
+        obj._new = false;
+        this.onRollback(() => {
+            obj._new = wasNew;
+            if (incrementPrimaryKey) (obj as Record<string, unknown>)[incrementPrimaryKey.name] = oldId;
+        });
+        this.markChanged(model);
+        // replaced rows are deleted by sqlite, they are reported as updates
+        this.recordChange(obj.constructor.name, existing ? 'update' : 'insert', existing, inserted);
+        this.runHook('afterSave', obj);
+
+        return obj;
+    }
+
+    /**
+     * Sets `updatedAt` columns, and `createdAt` columns of inserted objects that don't have a value yet.
+     */
+    private setTimestamps(obj: SqlTable, model: Model, inserting: boolean) {
+        for (const col of model.columns) {
+            const value = (obj as SqlTable & Record<string, unknown>)[col.name];
+            const isDefault = value === col.defaultValue || (value instanceof Date && col.defaultValue instanceof Date && value.getTime() === col.defaultValue.getTime());
+            if (col.timestamp === 'updatedAt' || (col.timestamp === 'createdAt' && inserting && (value == null || isDefault))) {
+                (obj as SqlTable & Record<string, unknown>)[col.name] = timestamp(col);
+            }
+        }
+    }
+
+    /**
+     * Checks column types and validation rules, throws `DBValidationError` with every failure.
+     */
+    private validateObject(obj: SqlTable, model: Model) {
+        const failures: ValidationFailure[] = [];
+        const fail = (col: TableColumn, rule: string, message: string) => {
+            const value = (obj as SqlTable & Record<string, unknown>)[col.name];
+            failures.push({ model: obj.constructor.name, table: model.tableName, property: col.name, column: col.mappedTo ?? col.name, rule, message, value });
+        };
+
+        for (const col of model.columns) {
+            const value = (obj as SqlTable & Record<string, unknown>)[col.name];
+            if (value == null) {
+                // auto increment keys are filled by sqlite
+                if (!col.nullable && !col.autoIncrement) fail(col, 'nullable', 'cannot be null');
+                continue;
+            }
+            if (!isProvidedTypeValid(value, col)) {
+                fail(col, 'type', `should be of type ${col.type}`);
+                continue;
+            }
+
+            for (const rule of this.rules[obj.constructor.name]?.filter((r) => r.property === col.name) ?? []) {
+                const message = rule.validate(value, obj);
+                if (message != null) fail(col, rule.rule, message);
+            }
+        }
+
+        if (failures.length > 0) throw new DBValidationError(failures);
+    }
+
+    /**
+     * Whether an object has columns that changed since it was loaded or saved. New objects, and
+     * objects that were not loaded by the orm, are always dirty.
+     */
+    public isDirty(obj: SqlTable): boolean {
+        const model = this.models[obj.constructor.name];
+        if (model == null) throw new DBModelNotFound(obj.constructor as typeof SqlTable);
+        return this.changedColumns(obj, model).length > 0;
+    }
+
+    /**
+     * Lists the properties that changed since an object was loaded or saved, with their stored and
+     * current values. Every property is listed for objects that are not stored yet.
+     */
+    public changes<T extends SqlTable>(obj: T): Record<string, ColumnChange>;
+    /**
+     * Async iterator of the changes of a model's rows, see `on()`.
+     */
+    public changes<T extends SqlTable>(table: new () => T): AsyncIterableIterator<ChangeEvent<T>>;
+    public changes<T extends SqlTable>(objOrTable: T | (new () => T)): Record<string, ColumnChange> | AsyncIterableIterator<ChangeEvent<T>> {
+        if (typeof objOrTable === 'function') {
+            if (this.models[objOrTable.name] == null) throw new DBModelNotFound(objOrTable);
+            return this.watch(objOrTable);
+        }
+
+        const obj = objOrTable;
+        const model = this.models[obj.constructor.name];
+        if (model == null) throw new DBModelNotFound(obj.constructor as typeof SqlTable);
+
+        const snapshot = obj._new ? undefined : this.snapshots.get(obj);
+        const changes: Record<string, ColumnChange> = {};
+        for (const col of this.changedColumns(obj, model)) {
+            changes[col.name] = {
+                from: snapshot ? this.deserialize(snapshot[col.mappedTo ?? col.name], col.type) : undefined,
+                to: (obj as SqlTable & Record<string, unknown>)[col.name],
+            };
+        }
+        return changes;
+    }
+
+    /**
+     * Columns whose value differs from the snapshot of an object, all columns when there is no snapshot.
+     */
+    private changedColumns(obj: SqlTable, model: Model): TableColumn[] {
+        const snapshot = this.snapshots.get(obj);
+        if (obj._new || snapshot == null) return model.columns;
+
+        return model.columns.filter((col) => {
+            const value = (obj as SqlTable & Record<string, unknown>)[col.name];
+            // values that cannot be serialized are reported by validation
+            if (!isProvidedTypeValid(value, col)) return true;
+            return !sameValue(snapshot[col.mappedTo ?? col.name], this.serialize(value, col.type));
+        });
+    }
+
+    /**
+     * Increments the version of an object after its row was updated.
+     * @returns the serialized version keyed by column name, for the snapshot of the object
+     */
+    private bumpVersion(obj: SqlTable, model: Model): Record<string, unknown> {
+        const version = model.columns.find((c) => c.version);
+        if (version == null) return {};
+
+        const values = obj as SqlTable & Record<string, number>;
+        const old = values[version.name];
+        values[version.name] = old + 1;
+        this.onRollback(() => values[version.name] = old);
+        return { [version.mappedTo ?? version.name]: values[version.name] };
+    }
+
+    /**
+     * Replaces the snapshot of an object, the old snapshot is restored when the transaction is rolled back.
+     */
+    private setSnapshot(obj: SqlTable, snapshot: Record<string, unknown> | undefined) {
+        const old = this.snapshots.get(obj);
+        if (snapshot) this.snapshots.set(obj, snapshot);
+        else this.snapshots.delete(obj);
+        this.onRollback(() => old ? this.snapshots.set(obj, old) : this.snapshots.delete(obj));
+    }
+
+    /**
+     * Serializes the columns of an object, keyed by column name.
+     */
+    private buildRow(obj: SqlTable, model: Model) {
+        const builtData: Record<string, unknown> = {};
+        model.columns.forEach((col) => {
+            builtData[col.mappedTo ?? col.name] = this.serialize((obj as SqlTable & Record<string, unknown>)[col.name], col.type);
+        });
+        return builtData;
+    }
+
+    /**
+     * Deletes matching rows, rows of models with a `softDelete` column are marked as deleted.
+     */
+    public delete<T extends SqlTable>(table: new () => T, query: DeleteQuery, options: DeleteOptions = {}) {
+        return this.audited(table.name, () => {
+            const model = this.models[table.name];
+            if (model == null) throw new DBModelNotFound(table);
+            const deletedAt = model.columns.find((c) => c.timestamp === 'deletedAt');
+
+            const matching = deletedAt && !options.force ? this.excludeDeleted(model, query) : query;
+            const rows = this.selectForChanges(table.name, model, matching);
+
+            const built = deletedAt && !options.force ? buildSoftDeleteQuery(matching, model, deletedAt, this.serialize(timestamp(deletedAt), deletedAt.type)) : buildDeleteQuery(query, model);
+            this.write(built.query, built.params);
+            this.markChanged(model);
+            for (const row of rows) {
+                this.recordChange(table.name, 'delete', row);
+            }
+        });
+    }
+
+    /**
+     * Deletes the row of an object by its primary key, unlike `delete()` the `beforeDelete` hooks are
+     * called. The object is marked as new, so saving it inserts it again. Objects of models with a
+     * `softDelete` column are marked as deleted instead.
+     */
+    public remove<T extends SqlTable>(obj: T, options: DeleteOptions = {}): T {
+        return this.audited(obj.constructor.name, () => this.removeObject(obj, options));
+    }
+
+    /**
+     * Deletes the rows of objects by their primary key in one transaction, see `remove()`.
+     */
+    public deleteMany<T extends SqlTable>(objs: T[], options: DeleteOptions = {}) {
+        const statements = new Map<string, Statement>();
+        try {
+            this.transaction(() => {
+                for (const obj of objs) {
+                    this.removeObject(obj, options, statements);
+                }
+            });
+        } finally {
+            for (const statement of statements.values()) {
+                statement.finalize();
+            }
+        }
+    }
+
+    private removeObject<T extends SqlTable>(obj: T, options: DeleteOptions, statements?: Map<string, Statement>): T {
+        const model = this.models[obj.constructor.name];
+        if (model == null) throw new DBModelNotFound(obj.constructor as typeof SqlTable);
+
+        this.runHook('beforeDelete', obj);
+        const row = this.tracksChanges(obj.constructor.name) ? this.snapshots.get(obj) ?? this.buildRow(obj, model) : undefined;
+
+        const deletedAt = model.columns.find((c) => c.timestamp === 'deletedAt');
+        if (deletedAt && !options.force) {
+            const value = timestamp(deletedAt);
+            const values = { [deletedAt.mappedTo ?? deletedAt.name]: this.serialize(value, deletedAt.type) };
+            const built = buildUpdateWhereQuery(this.primaryKeyWhere(model, obj), model, values);
+            this.write(built.query, built.params, statements);
+
+            const old = (obj as SqlTable & Record<string, unknown>)[deletedAt.name];
+            (obj as SqlTable & Record<string, unknown>)[deletedAt.name] = value;
+            this.onRollback(() => (obj as SqlTable & Record<string, unknown>)[deletedAt.name] = old);
+            const snapshot = { ...this.snapshots.get(obj), ...values, ...this.bumpVersion(obj, model) };
+            if (this.snapshots.has(obj)) this.setSnapshot(obj, snapshot);
+        } else {
+            const built = buildDeleteQuery(this.primaryKeyWhere(model, obj), model);
+            this.write(built.query, built.params, statements);
+
+            const wasNew = obj._new;
+            obj._new = true;
+            this.onRollback(() => obj._new = wasNew);
+            this.setSnapshot(obj, undefined);
+        }
+        this.markChanged(model);
+        // soft deletes are reported as deletes, since the row is excluded from queries
+        if (row) this.recordChange(obj.constructor.name, 'delete', row);
+
+        return obj;
+    }
+
+    /**
+     * Restores soft deleted rows.
+     * @returns the restored object, or the number of restored rows when restoring by query
+     */
+    public restore<T extends SqlTable>(obj: T): T;
+    public restore<T extends SqlTable>(table: new () => T, query: WhereClause): number;
+    public restore<T extends SqlTable>(objOrTable: T | (new () => T), query?: WhereClause): T | number {
+        return this.audited(typeof objOrTable === 'function' ? objOrTable.name : objOrTable.constructor.name, () => {
+            const isObj = typeof objOrTable !== 'function';
+            const name = isObj ? objOrTable.constructor.name : objOrTable.name;
+            const model = this.models[name];
+            if (model == null) throw new DBModelNotFound((isObj ? objOrTable.constructor : objOrTable) as typeof SqlTable);
+
+            const deletedAt = model.columns.find((c) => c.timestamp === 'deletedAt');
+            if (deletedAt == null) throw new DBInvalidData(`${name} does not have a softDelete column`);
+
+            const where = isObj ? this.primaryKeyWhere(model, objOrTable) : query!;
+            const values = { [deletedAt.mappedTo ?? deletedAt.name]: null };
+            const rows = this.selectForChanges(name, model, where);
+
+            const built = buildUpdateWhereQuery(where, model, values);
+            const changes = this.write(built.query, built.params);
+            this.markChanged(model);
+            // restores are reported as inserts, since the row is included in queries again
+            for (const row of rows) {
+                this.recordChange(name, 'insert', undefined, this.updatedRow(model, row, values));
+            }
+            if (!isObj) return changes;
+
+            const obj = objOrTable as SqlTable & Record<string, unknown>;
+            const old = obj[deletedAt.name];
+            obj[deletedAt.name] = null;
+            this.onRollback(() => obj[deletedAt.name] = old);
+            const snapshot = { ...this.snapshots.get(obj), [deletedAt.mappedTo ?? deletedAt.name]: null, ...this.bumpVersion(obj, model) };
+            if (this.snapshots.has(obj)) this.setSnapshot(obj, snapshot);
+            return objOrTable;
+        });
+    }
+
+    /**
+     * Builds a where clause matching the row of an object by its primary key.
+     */
+    private primaryKeyWhere(model: Model, obj: SqlTable): WhereClause {
+        const keys = model.columns.filter((c) => c.isPrimaryKey);
+        if (keys.length === 0) throw new DBInvalidTable(`${model.tableName} does not have primary key`);
+
+        return {
+            where: {
+                clause: keys.map((c) => `"${c.mappedTo ?? c.name}" = ?`).join(' AND '),
+                values: keys.map((c) => this.serialize((obj as SqlTable & Record<string, unknown>)[c.name], c.type)),
+            },
+        };
+    }
+
+    /**
+     * Adds a condition excluding soft deleted rows to a query, unless `withDeleted` is set.
+     */
+    private excludeDeleted<Q extends Partial<WhereClause>>(model: Model, query: Q, withDeleted = false): Q {
+        const deletedAt = model.columns.find((c) => c.timestamp === 'deletedAt');
+        if (deletedAt == null || withDeleted) return query;
+
+        const clause = `"${deletedAt.mappedTo ?? deletedAt.name}" IS NULL`;
+        return {
+            ...query,
+            where: {
+                clause: query.where ? `(${query.where.clause}) AND ${clause}` : clause,
+                values: query.where?.values ?? [],
+            },
+        };
+    }
+
+    /**
+     * Adds hooks that are called for objects of every model.
+     * @returns function that removes the subscriber
+     */
+    public subscribe(subscriber: OrmSubscriber) {
+        this.subscribers.push(subscriber);
+        return () => {
+            this.subscribers = this.subscribers.filter((s) => s !== subscriber);
+        };
+    }
+
+    /**
+     * Calls `handler` with the changes of a model's rows. Changes made in a transaction are emitted after it
+     * commits, changes made by foreign key actions or queries run with `orm.db` are not emitted. Errors thrown
+     * by the handler are reported as uncaught errors, they don't fail the write.
+     * @returns function that removes the handler
+     */
+    public on<T extends SqlTable>(type: ChangeType, table: new () => T, handler: (event: ChangeEvent<T>) => void) {
+        if (this.models[table.name] == null) throw new DBModelNotFound(table);
+
+        const listener: ChangeListener = { type, model: table.name, handler };
+        this.changeListeners.push(listener);
+        return () => {
+            this.changeListeners = this.changeListeners.filter((l) => l !== listener);
+        };
+    }
+
+    /**
+     * Async iterator of the changes of a model, see `on()`. Changes are queued from the call until the
+     * iteration is stopped.
+     */
+    private watch<T extends SqlTable>(table: new () => T): AsyncIterableIterator<ChangeEvent<T>> {
+        const queue: ChangeEvent<T>[] = [];
+        let waiting: ((result: IteratorResult<ChangeEvent<T>>) => void) | undefined;
+        let stopped = false;
+
+        const push = (event: ChangeEvent<T>) => {
+            if (waiting) {
+                waiting({ value: event, done: false });
+                waiting = undefined;
+            } else {
+                queue.push(event);
+            }
+        };
+        const offs = (['insert', 'update', 'delete'] as ChangeType[]).map((type) => this.on(type, table, push));
+
+        const iterator: AsyncIterableIterator<ChangeEvent<T>> = {
+            next: () => {
+                if (queue.length > 0) return Promise.resolve({ value: queue.shift()!, done: false });
+                if (stopped) return Promise.resolve({ value: undefined, done: true });
+                return new Promise((resolve) => waiting = resolve);
+            },
+            return: () => {
+                stopped = true;
+                offs.forEach((off) => off());
+                waiting?.({ value: undefined, done: true });
+                waiting = undefined;
+                return Promise.resolve({ value: undefined, done: true });
+            },
+            [Symbol.asyncIterator]: () => iterator,
+        };
+        return iterator;
+    }
+
+    private hasChangeListeners(modelName: string) {
+        return this.changeListeners.some((l) => l.model === modelName);
+    }
+
+    /**
+     * Whether changes of a model are recorded, because it is audited or has change listeners.
+     */
+    private tracksChanges(modelName: string) {
+        return this.models[modelName]?.audit || this.hasChangeListeners(modelName);
+    }
+
+    /**
+     * Reads the rows a bulk write is about to change, only when changes of the model are recorded.
+     */
+    private selectForChanges(modelName: string, model: Model, query: DeleteQuery): Record<string, unknown>[] {
+        if (!this.tracksChanges(modelName)) return [];
+
+        const built = buildSelectQuery(query, model);
+        return this.withStatement(built.query, (statement) => statement.all(...built.params));
+    }
+
+    /**
+     * Reads the row an insert conflicts with, by the conflict target or the primary key.
+     */
+    private findConflictingRow(model: Model, data: Record<string, unknown>, conflict: InsertConflict) {
+        const target = conflict.target ?? model.columns.filter((c) => c.isPrimaryKey).map((c) => c.mappedTo ?? c.name);
+        if (target.length === 0 || target.some((c) => data[c] == null)) return undefined;
+
+        const built = buildSelectQuery({ where: { clause: target.map((c) => `"${c}" = ?`).join(' AND '), values: target.map((c) => data[c]) }, limit: 1 }, model);
+        return this.withStatement(built.query, (statement) => statement.get<Record<string, unknown>>(...built.params));
+    }
+
+    /**
+     * Values of a row after `buildUpdateWhereQuery()` set `data`, which also increments the version.
+     */
+    private updatedRow(model: Model, row: Record<string, unknown>, data: Record<string, unknown>) {
+        const updated = { ...row, ...data };
+        const version = model.columns.find((c) => c.version);
+        if (version) updated[version.mappedTo ?? version.name] = Number(row[version.mappedTo ?? version.name]) + 1;
+        return updated;
+    }
+
+    /**
+     * Writes the history row of audited models, and emits a change event after the transaction commits.
+     * @param old stored values before the change, keyed by column name
+     * @param row stored values after the change, keyed by column name
+     */
+    private recordChange(modelName: string, type: ChangeType, old?: Record<string, unknown>, row?: Record<string, unknown>) {
+        if (!this.tracksChanges(modelName)) return;
+
+        const model = this.models[modelName];
+        if (model.audit) this.writeHistory(model, type, (row ?? old)!);
+        if (!this.hasChangeListeners(modelName)) return;
+
+        const values = (data: Record<string, unknown>, columns = model.columns) => {
+            const parsed: Record<string, unknown> = {};
+            for (const col of columns) {
+                const name = col.mappedTo ?? col.name;
+                if (name in data) parsed[col.name] = this.deserialize(data[name], col.type);
+            }
+            return parsed;
+        };
+
+        const event: ChangeEvent = {
+            type,
+            model: modelName,
+            key: values((row ?? old)!, model.columns.filter((c) => c.isPrimaryKey)),
+            old: old ? values(old) : undefined,
+            new: row ? values(row) : undefined,
+        };
+        this.afterCommit(() => runAll(this.changeListeners.filter((l) => l.model === modelName && l.type === type).map((l) => () => l.handler(event))));
+    }
+
+    /**
+     * Runs `fn` with an actor that is recorded in the history of audited models, also across `await`.
+     */
+    public withActor<R>(actor: string, fn: () => R): R {
+        return this.actors.run(actor, fn);
+    }
+
+    /**
+     * Lists the recorded changes of a row of an audited model, oldest first.
+     * @param id primary key, or an object with the primary key properties
+     */
+    public history<T extends SqlTable>(table: new () => T, id: PrimitiveTypes | Partial<T>): HistoryEntry<T>[] {
+        const model = this.models[table.name];
+        if (model == null) throw new DBModelNotFound(table);
+        if (!model.audit) throw new DBInvalidTable(`${table.name} is not audited`);
+
+        const keys = model.columns.filter((c) => c.isPrimaryKey);
+        const key = (typeof id === 'object' ? id : { [keys[0].name]: id }) as Record<string, unknown>;
+        const built = buildSelectQuery({ where: { clause: '"key" = ?', values: [this.historyKey(model, key)] }, order: { by: '"at", "historyId"' } }, this.models[historyTableName(model)]);
+
+        return this.withStatement(built.query, (statement) => statement.all<{ operation: ChangeType; at: number; actor: string | null; data: string }>(...built.params)).map((row) => {
+            const data = dejsonify(JSON.parse(row.data), this.opts.jsonCompatMode ?? false);
+            // custom column types are recorded serialized
+            for (const col of model.columns.filter((c) => !isBuiltinColumnType(c.type) && c.name in data)) {
+                data[col.name] = this.deserialize(data[col.name], col.type);
+            }
+            return { operation: row.operation, at: new Date(row.at), actor: row.actor, values: data };
+        });
+    }
+
+    /**
+     * Saves a row with the values it had at a point in time, using the history of an audited model.
+     * Throws `DBNotFound` when the row did not exist at that time.
+     * @param at time to restore, the latest change at or before it is restored
+     */
+    public restoreVersion<T extends SqlTable>(table: new () => T, id: PrimitiveTypes | Partial<T>, at: Date | number): T {
+        const time = at instanceof Date ? at.getTime() : at;
+        const entry = this.history(table, id).filter((e) => e.at.getTime() <= time).at(-1);
+        if (entry == null || entry.operation === 'delete') throw new DBNotFound(`${table.name} ${JSON.stringify(id)} did not exist at ${new Date(time).toISOString()}`);
+
+        const model = this.models[table.name];
+        const obj = Object.assign(new table(), entry.values);
+        const current = this.findOneOptional(table, Object.fromEntries(model.columns.filter((c) => c.isPrimaryKey).map((c) => [c.name, (obj as Record<string, unknown>)[c.name]])) as Partial<T>, { withDeleted: true });
+        obj._new = current._new;
+        // the current version is expected when updating
+        const version = model.columns.find((c) => c.version);
+        if (version && !current._new) (obj as Record<string, unknown>)[version.name] = (current as Record<string, unknown>)[version.name];
+
+        // auto increment keys are only kept when inserting with a conflict action
+        return this.save(obj, current._new ? { onConflict: 'ignore' } : {});
+    }
+
+    /**
+     * Runs a write in a transaction when the model is audited, so that rows and their history are written together.
+     */
+    private audited<R>(modelName: string, fn: () => R): R {
+        return this.models[modelName]?.audit && !this.inTransaction ? this.transaction(fn) : fn();
+    }
+
+    /**
+     * Primary key of a row as JSON, as stored in the history table.
+     * @param key primary key values keyed by property
+     */
+    private historyKey(model: Model, key: Record<string, unknown>) {
+        return JSON.stringify(jsonify(model.columns.filter((c) => c.isPrimaryKey).map((c) => key[c.name])));
+    }
+
+    /**
+     * Records a change of an audited model in its history table.
+     * @param row stored values after the change, or before it for deletes, keyed by column name
+     */
+    private writeHistory(model: Model, type: ChangeType, row: Record<string, unknown>) {
+        const values: Record<string, unknown> = {};
+        for (const col of model.columns) {
+            const name = col.mappedTo ?? col.name;
+            if (!(name in row)) continue;
+            values[col.name] = isBuiltinColumnType(col.type) ? this.deserialize(row[name], col.type) : row[name];
+        }
+
+        const built = buildInsertQuery(this.models[historyTableName(model)], {
+            key: this.historyKey(model, values),
+            operation: type,
+            at: Date.now(),
+            actor: this.actors.getStore() ?? null,
+            data: JSON.stringify(jsonify(values)),
+        });
+        this.write(built.query, built.params);
+    }
+
+    /**
+     * Calls a hook of the object's model, then the hooks of subscribers.
+     */
+    private runHook(hook: HookName, obj: SqlTable) {
+        (obj as SqlTable & ModelHooks)[hook]?.();
+        for (const subscriber of this.subscribers) {
+            subscriber[hook]?.(obj);
+        }
+    }
+
+    /**
+     * Updates matching rows without loading them.
+     * @param values new values of properties
+     * @returns number of updated rows
+     */
+    public updateWhere<T extends SqlTable>(table: new () => T, query: WhereClause, values: Partial<T>): number {
+        return this.audited(table.name, () => {
+            const model = this.models[table.name];
+            if (model == null) throw new DBModelNotFound(table);
+
+            const data: Record<string, unknown> = {};
+            for (const [prop, value] of Object.entries(values)) {
+                const col = model.columns.find((c) => c.name === prop);
+                if (col == null) throw new DBInvalidData(`${model.tableName}.${prop} is not a column`);
+                if (!isProvidedTypeValid(value, col)) throw new DBInvalidData(`${model.tableName}.${prop} has a different type`);
+                data[col.mappedTo ?? col.name] = this.serialize(value, col.type);
+            }
+            if (Object.keys(data).length === 0) return 0;
+
+            const rows = this.selectForChanges(table.name, model, query);
+
+            const built = buildUpdateWhereQuery(query, model, data);
+            const changes = this.write(built.query, built.params);
+            this.markChanged(model);
+            for (const row of rows) {
+                this.recordChange(table.name, 'update', row, this.updatedRow(model, row, data));
+            }
+
+            return changes;
+        });
+    }
+
+    /**
+     * Runs a query that writes rows, unique constraint errors are thrown as `DBUniqueViolation`.
+     * @param statements statements reused by bulk methods instead of the statement cache, keyed by query
+     * @returns number of changed rows
+     */
+    private write(query: string, params: any[], statements?: Map<string, Statement>): number {
+        this.checkTransactionContext();
+        try {
+            return this.withStatement(query, (statement) => statement.run(...params), statements);
+        } catch (e) {
+            throw toUniqueViolation(e);
+        }
+    }
+
+    /**
+     * Same as `write()`, for queries that return a row.
+     */
+    private writeReturning(query: string, params: any[], statements?: Map<string, Statement>) {
+        this.checkTransactionContext();
+        try {
+            return this.withStatement(query, (statement) => statement.get<Record<string, unknown>>(...params), statements);
+        } catch (e) {
+            throw toUniqueViolation(e);
+        }
+    }
+
+    /**
+     * Runs `fn` with a prepared statement for a query, reused from the statement cache when possible.
+     * Statements are finalized after use when the cache is disabled.
+     * @param statements statements to use instead of the statement cache, they are finalized by the caller
+     */
+    private withStatement<R>(query: string, fn: (statement: Statement) => R, statements?: Map<string, Statement>): R {
+        if (statements == null && (this.opts.statementCacheSize ?? 100) <= 0) {
+            this.statementMisses++;
+            const statement = this.db.prepare(query);
+            try {
+                return fn(statement);
+            } finally {
+                statement.finalize();
+            }
+        }
+        return fn(this.prepare(query, statements));
+    }
+
+    /**
+     * Returns a prepared statement for a query from `statements` or the statement cache, see `withStatement()`.
+     */
+    private prepare(query: string, statements?: Map<string, Statement>) {
+        if (statements) {
+            let statement = statements.get(query);
+            if (statement == null) {
+                statement = this.db.prepare(query);
+                statements.set(query, statement);
+            }
+            return statement;
+        }
+
+        const size = this.opts.statementCacheSize ?? 100;
+        const cached = this.statements.get(query);
+        if (cached) {
+            this.statementHits++;
+            // move to the end, as most recently used
+            this.statements.delete(query);
+            this.statements.set(query, cached);
+            return cached;
+        }
+
+        this.statementMisses++;
+        const statement = this.db.prepare(query);
+        this.statements.set(query, statement);
+        if (this.statements.size > size) {
+            const [oldest, evicted] = this.statements.entries().next().value!;
+            this.statements.delete(oldest);
+            evicted.finalize();
+        }
+        return statement;
+    }
+
+    /**
+     * Hit and miss counts of the prepared statement cache.
+     */
+    public get statementCacheStats(): StatementCacheStats {
+        return { size: this.statements.size, hits: this.statementHits, misses: this.statementMisses };
+    }
+
+    /**
+     * Hit and miss counts of the query result cache.
+     */
+    public get queryCacheStats(): QueryCacheStats {
+        return { size: this.queryCache.size, hits: this.queryCacheHits, misses: this.queryCacheMisses, invalidations: this.queryCacheInvalidations };
+    }
+
+    /**
+     * Drops cached results of a model, or all cached results. Needed after writing to tables without the orm,
+     * e.g. with `orm.db.exec()`.
+     */
+    public clearQueryCache(table?: typeof SqlTable) {
+        if (table && this.models[table.name] == null) throw new DBModelNotFound(table);
+        this.invalidateQueryCache(table ? this.models[table.name] : undefined);
+    }
+
+    /**
+     * Returns the cached result of a query, or reads and caches it when `cache` is set.
+     */
+    private cached<R>(model: Model, builtQuery: { query: string; params: unknown[] }, cache: boolean | number | undefined, read: () => R): R {
+        if (!cache) return read();
+
+        const key = `${builtQuery.query}\0${JSON.stringify(builtQuery.params, (_key, value) => typeof value === 'bigint' ? `${value}n` : value)}`;
+        const entry = this.queryCache.get(key);
+        if (entry && entry.expires > Date.now()) {
+            this.queryCacheHits++;
+            // move to the end, the most recently used position
+            this.queryCache.delete(key);
+            this.queryCache.set(key, entry);
+            return entry.value as R;
+        }
+
+        this.queryCacheMisses++;
+        const value = read();
+        const ttl = typeof cache === 'number' ? cache : this.opts.queryCache?.ttlMs ?? 60_000;
+        this.queryCache.delete(key);
+        this.queryCache.set(key, { table: `${model.database}.${model.tableName}`, value, expires: Date.now() + ttl });
+
+        const maxSize = this.opts.queryCache?.maxSize ?? 1000;
+        for (const oldest of this.queryCache.keys()) {
+            if (this.queryCache.size <= maxSize) break;
+            this.queryCache.delete(oldest);
+        }
+        return value;
+    }
+
+    /**
+     * Drops cached results of a table and of the tables referencing it, since they can be changed by
+     * `onDelete` and `onUpdate` actions.
+     */
+    private invalidateQueryCache(model?: Model) {
+        if (this.queryCache.size === 0) return;
+
+        const tables = new Set<string>();
+        const add = (m: Model) => {
+            const name = `${m.database}.${m.tableName}`;
+            if (tables.has(name)) return;
+            tables.add(name);
+            for (const other of Object.values(this.models)) {
+                if (other.database === m.database && other.foreignKeys?.some((k) => k.table === m.tableName)) add(other);
+            }
+        };
+        if (model) add(model);
+
+        for (const [key, entry] of this.queryCache) {
+            if (model == null || tables.has(entry.table)) {
+                this.queryCache.delete(key);
+                this.queryCacheInvalidations++;
+            }
+        }
+    }
+
+    /**
+     * Links two rows of models with a `manyToMany` relation.
+     * @param relationName name of the relation, only needed when the models have more than one relation between them
+     */
+    public link(a: SqlTable, b: SqlTable, relationName?: string) {
+        const { joinModel, where, data } = this.buildJoinRow(a, b, relationName);
+
+        const count = buildCountWhereQuery({ where }, joinModel);
+        if (this.withStatement(count.query, (statement) => statement.get<{ 'COUNT(*)': number }>(...count.params))!['COUNT(*)'] > 0) return;
+
+        const built = buildInsertQuery(joinModel, data);
+        this.write(built.query, built.params);
+        this.markChanged(joinModel);
+    }
+
+    /**
+     * Removes the link between two rows of models with a `manyToMany` relation.
+     * @param relationName name of the relation, only needed when the models have more than one relation between them
+     */
+    public unlink(a: SqlTable, b: SqlTable, relationName?: string) {
+        const { joinModel, where } = this.buildJoinRow(a, b, relationName);
+
+        const built = buildDeleteQuery({ where }, joinModel);
+        this.write(built.query, built.params);
+        this.markChanged(joinModel);
+    }
+
+    private buildJoinRow(a: SqlTable, b: SqlTable, relationName?: string) {
+        const find = (from: SqlTable, to: SqlTable) => this.models[from.constructor.name]?.relations.find((r) => r.type === 'manyToMany' && (relationName == null || r.name === relationName) && r.target() === to.constructor);
+
+        let relation = find(a, b);
+        if (relation == null) {
+            relation = find(b, a);
+            [a, b] = [b, a];
+        }
+        if (relation == null) throw new DBInvalidData(`${a.constructor.name} and ${b.constructor.name} do not have a many to many relation`);
+        if (a._new || b._new) throw new DBInvalidData(`cannot link rows that have not been saved`);
+
+        const joinModel = this.models[relation.joinTable!];
+        if (joinModel == null) throw new DBError(`join table of ${a.constructor.name}.${relation.name} is not registered, call modelsLoaded() first`);
+
+        const aKey = this.models[a.constructor.name].columns.find((c) => c.isPrimaryKey)!;
+        const bKey = this.models[b.constructor.name].columns.find((c) => c.isPrimaryKey)!;
+        const data = {
+            [relation.foreignKey]: this.serialize((a as SqlTable & Record<string, unknown>)[aKey.name], aKey.type),
+            [relation.otherKey!]: this.serialize((b as SqlTable & Record<string, unknown>)[bKey.name], bKey.type),
+        };
+
+        return {
+            joinModel,
+            data,
+            where: {
+                clause: `"${relation.foreignKey}" = ? AND "${relation.otherKey}" = ?`,
+                values: Object.values(data),
+            },
+        };
+    }
+
+    /**
+     * Loads related rows into `rows`, one query per relation.
+     */
+    private loadRelations<T extends SqlTable>(table: new () => T, rows: T[], include: string[]) {
+        const model = this.models[table.name];
+        for (const name of include) {
+            const relation = model.relations.find((r) => r.name === name);
+            if (relation == null) throw new DBInvalidData(`${table.name} does not have a relation ${name}`);
+
+            const target = relation.target() as new () => SqlTable & Record<string, unknown>;
+            const targetModel = this.models[target.name];
+            if (targetModel == null) throw new DBModelNotFound(target);
+
+            if (relation.type === 'manyToMany') {
+                this.loadManyToMany(model, targetModel, target, rows, relation);
+                continue;
+            }
+
+            const ownKey = relation.type === 'belongsTo' ? model.columns.find((c) => c.name === relation.foreignKey) : model.columns.find((c) => c.isPrimaryKey);
+            const targetKey = relation.type === 'belongsTo' ? targetModel.columns.find((c) => c.isPrimaryKey) : targetModel.columns.find((c) => c.name === relation.foreignKey);
+            if (ownKey == null || targetKey == null) throw new DBInvalidTable(`${table.name}.${name}: relation keys could not be found`);
+
+            const related: Record<string, unknown>[] = [];
+            for (const where of this.buildWhereIn(targetKey, rows.map((r) => (r as Record<string, unknown>)[ownKey.name]))) {
+                related.push(...this.findMany(target, where));
+            }
+
+            const grouped = new Map<unknown, Record<string, unknown>[]>();
+            for (const r of related) {
+                grouped.set(r[targetKey.name], [...(grouped.get(r[targetKey.name]) ?? []), r]);
+            }
+
+            for (const row of rows as Record<string, unknown>[]) {
+                const matches = grouped.get(row[ownKey.name]) ?? [];
+                row[relation.name] = relation.type === 'hasMany' ? matches : matches[0] ?? null;
+            }
+        }
+    }
+
+    private loadManyToMany<T extends SqlTable>(model: Model, targetModel: Model, target: new () => SqlTable & Record<string, unknown>, rows: T[], relation: Relation) {
+        const joinModel = this.models[relation.joinTable!];
+        if (joinModel == null) throw new DBError(`join table of ${model.tableName}.${relation.name} is not registered, call modelsLoaded() first`);
+
+        const ownKey = model.columns.find((c) => c.isPrimaryKey)!;
+        const targetKey = targetModel.columns.find((c) => c.isPrimaryKey)!;
+
+        const joinRows: Record<string, unknown>[] = [];
+        for (const where of this.buildWhereIn({ ...ownKey, name: relation.foreignKey, mappedTo: undefined }, rows.map((r) => (r as Record<string, unknown>)[ownKey.name]))) {
+            const built = buildSelectQuery(where, joinModel);
+            joinRows.push(...this.withStatement(built.query, (statement) => statement.all(...built.params)));
+        }
+
+        const targets = new Map<unknown, Record<string, unknown>>();
+        for (const where of this.buildWhereIn(targetKey, joinRows.map((r) => this.deserialize(r[relation.otherKey!], targetKey.type)))) {
+            for (const found of this.findMany(target, where)) {
+                targets.set(found[targetKey.name], found);
+            }
+        }
+
+        const grouped = new Map<unknown, Record<string, unknown>[]>();
+        for (const joinRow of joinRows) {
+            const key = this.deserialize(joinRow[relation.foreignKey], ownKey.type);
+            const found = targets.get(this.deserialize(joinRow[relation.otherKey!], targetKey.type));
+            if (found) grouped.set(key, [...(grouped.get(key) ?? []), found]);
+        }
+
+        for (const row of rows as Record<string, unknown>[]) {
+            row[relation.name] = grouped.get(row[ownKey.name]) ?? [];
+        }
+    }
+
+    /**
+     * Builds `col IN (...)` clauses for unique non null keys, split to stay under sqlite's variable limit.
+     */
+    private buildWhereIn(col: TableColumn, keys: unknown[]): WhereClause[] {
+        const unique = [...new Set(keys.filter((k) => k != null))];
+        const clauses: WhereClause[] = [];
+        for (let i = 0; i < unique.length; i += relationChunkSize) {
+            const chunk = unique.slice(i, i + relationChunkSize);
+            clauses.push({
+                where: {
+                    clause: `"${col.mappedTo ?? col.name}" IN (${chunk.map(() => '?').join(', ')})`,
+                    values: chunk.map((k) => this.serialize(k, col.type)),
+                },
+            });
+        }
+        return clauses;
+    }
+
+    //#endregion table logic
+
+    //#region transactions
+
+    /**
+     * Runs `fn` inside a transaction. If `fn` throws (or the promise it returns rejects)
+     * all changes made inside it are rolled back, otherwise they are committed. Nested
+     * calls are turned into savepoints, so only the inner changes are rolled back.
+     *
+     * Transactions are kept per async context. An async `fn` waits while a transaction of another
+     * context is open, other calls throw `DBError`.
+     * @param fn callback to run inside the transaction
+     * @returns whatever `fn` returns
+     */
+    public transaction<R>(fn: () => R): R {
+        const parent = this.currentTransaction;
+        if (this.openTransaction !== parent) {
+            if (!(fn instanceof AsyncFunction)) throw new DBError('cannot start a transaction while a transaction of another async context is open');
+            return this.waitForTransactions().then(() => this.transaction(fn)) as R;
+        }
+
+        const depth = parent ? parent.depth + 1 : 0;
+        this.db.exec(depth === 0 ? 'BEGIN' : `SAVEPOINT orm_sp_${depth}`);
+        let finish!: () => void;
+        const finished = new Promise<void>((resolve) => finish = resolve);
+        const state: TransactionState = { parent, depth, done: false, finished, finish, undo: [], hasChanges: false, afterCommit: [] };
+        this.openTransaction = state;
+
+        let result: R;
+        try {
+            result = this.transactionContext.run(state, fn);
+        } catch (e) {
+            this.rollbackTransaction(state);
+            throw e;
+        }
+
+        if (result instanceof Promise) {
+            return result.then(
+                (r) => {
+                    this.commitTransaction(state);
+                    return r;
+                },
+                (e) => {
+                    this.rollbackTransaction(state);
+                    throw e;
+                },
+            ) as R;
+        }
+
+        this.commitTransaction(state);
+        return result;
+    }
+
+    /**
+     * Whether a transaction started by `transaction()` is currently open in this async context.
+     */
+    public get inTransaction() {
+        return this.currentTransaction != null;
+    }
+
+    /**
+     * Innermost open transaction of the current async context.
+     */
+    private get currentTransaction(): TransactionState | undefined {
+        let state = this.transactionContext.getStore();
+        // callbacks can outlive the transaction they were started in
+        while (state?.done) state = state.parent;
+        return state;
+    }
+
+    /**
+     * Waits until transactions of other async contexts are finished.
+     */
+    private async waitForTransactions() {
+        while (this.openTransaction != null && this.openTransaction !== this.currentTransaction) {
+            await this.openTransaction.finished;
+        }
+    }
+
+    /**
+     * Throws when a transaction of another async context is open, since writes would be part of it.
+     */
+    private checkTransactionContext() {
+        for (let state = this.transactionContext.getStore(); state; state = state.parent) {
+            if (state.aborted) throw new DBError('cannot write in a transaction that was rolled back, since the transaction it was started in finished first');
+        }
+        if (this.openTransaction != null && this.openTransaction !== this.currentTransaction) {
+            throw new DBError('cannot write while a transaction of another async context is open, use an async transaction to wait for it');
+        }
+    }
+
+    private commitTransaction(state: TransactionState) {
+        if (state.aborted) throw new DBError('transaction was rolled back, since the transaction it was started in finished first');
+        this.rollbackChildren(state);
+
+        if (state.depth > 0) {
+            this.db.exec(`RELEASE orm_sp_${state.depth}`);
+            this.closeTransaction(state);
+            const parent = state.parent!;
+            parent.undo.push(...state.undo);
+            parent.hasChanges ||= state.hasChanges;
+            parent.afterCommit.push(...state.afterCommit);
+            return;
+        }
+
+        try {
+            this.db.exec('COMMIT');
+        } catch (e) {
+            this.rollbackTransaction(state);
+            throw e;
+        }
+
+        this.closeTransaction(state);
+        if (state.hasChanges) this.hasChangesSinceBackup = true;
+        runAll(state.afterCommit);
+    }
+
+    private rollbackTransaction(state: TransactionState) {
+        if (state.done) return;
+        this.rollbackChildren(state);
+
+        try {
+            if (state.depth > 0) {
+                this.db.exec(`ROLLBACK TO orm_sp_${state.depth}`);
+                this.db.exec(`RELEASE orm_sp_${state.depth}`);
+            } else {
+                this.db.exec('ROLLBACK');
+            }
+        } finally {
+            this.closeTransaction(state);
+            for (const undo of state.undo.reverse()) {
+                undo();
+            }
+            // results cached during the transaction can contain rolled back rows
+            this.invalidateQueryCache();
+        }
+    }
+
+    /**
+     * Rolls back transactions started in `state` that are still open, e.g. because they were not awaited.
+     */
+    private rollbackChildren(state: TransactionState) {
+        while (this.openTransaction != null && this.openTransaction !== state) {
+            this.openTransaction.aborted = true;
+            this.rollbackTransaction(this.openTransaction);
+        }
+    }
+
+    private closeTransaction(state: TransactionState) {
+        state.done = true;
+        this.openTransaction = state.parent;
+        state.finish();
+    }
+
+    /**
+     * Marks that rows were written, deferred until the outer transaction commits. Cached results of the
+     * table are invalidated right away, all cached results when no table is given.
+     */
+    private markChanged(model?: Model) {
+        this.invalidateQueryCache(model);
+        const current = this.currentTransaction;
+        if (current) {
+            current.hasChanges = true;
+        } else {
+            this.hasChangesSinceBackup = true;
+        }
+    }
+
+    /**
+     * Registers a callback that is called when the outer transaction commits, or right away outside of transactions.
+     */
+    private afterCommit(fn: () => void) {
+        const current = this.currentTransaction;
+        if (current) {
+            current.afterCommit.push(fn);
+        } else {
+            fn();
+        }
+    }
+
+    /**
+     * Registers a callback that restores instance state if the current transaction is rolled back.
+     */
+    private onRollback(undo: () => void) {
+        this.currentTransaction?.undo.push(undo);
+    }
+
+    //#endregion transactions
+
+    //#region migrations
+
+    /**
+     * Lists migration files and whether they have been applied.
+     */
+    public migrationStatus(): MigrationStatus[] {
+        const applied = this.appliedMigrations();
+        const status: MigrationStatus[] = this.migrationFiles().map((f) => ({ version: f.version, name: f.name, applied: false }));
+
+        for (const row of applied) {
+            const existing = status.find((s) => s.version === row.version);
+            if (existing) {
+                existing.applied = true;
+                existing.appliedAt = new Date(row.appliedAt);
+            } else {
+                status.push({ version: row.version, name: row.name, applied: true, appliedAt: new Date(row.appliedAt) });
+            }
+        }
 
-        const builtQuery = buildCountWhereQuery(query, this.models[table.name]);
-        return this.db.prepare(builtQuery.query).get<{ 'COUNT(*)': number }>(...builtQuery.params)!['COUNT(*)'];
+        return status.sort((a, b) => a.version - b.version);
     }
 
-    public aggregateSelect<Row extends Array<any>, T extends SqlTable = SqlTable>(table: new () => T, query: AggregateSelectQuery): Row[] {
-        if (this.models[table.name] == null) throw new DBModelNotFound(table);
+    /**
+     * Applies pending migrations, each one in its own transaction with foreign keys checked before
+     * committing. A `model-changes` backup is created before any migration is run. Migrations wait for
+     * transactions of other async contexts, and writes of other contexts throw `DBError` while a migration runs.
+     * @returns names of applied and rolled back migrations
+     */
+    public async migrate(options: MigrateOptions = {}): Promise<MigrateResult> {
+        const applied = this.appliedMigrations();
+        // migrations after the target version are rolled back, pending ones before it are still applied
+        const rolledBack = options.to != null && applied.find((m) => m.version > options.to!) ? await this.rollback(applied.filter((m) => m.version > options.to!).length) : [];
+
+        const pending = this.migrationFiles().filter((f) => (options.to == null || f.version <= options.to) && applied.find((m) => m.version === f.version) == null);
+        if (pending.length === 0) return { applied: [], rolledBack };
+
+        this.doBackup('model-changes');
+
+        for (const file of pending) {
+            const migration = await loadMigration(file);
+            SqliteOrm.logInfo(this.opts, `applying migration ${file.name}`);
+
+            await this.waitForTransactions();
+            await this.schemaTransaction(async () => {
+                await migration.up(this);
+                this.db.exec(buildMigrationTableQuery());
+                this.db.exec(`INSERT INTO main.'${migrationTable}' ("version", "name", "appliedAt") VALUES (?, ?, ?)`, file.version, file.name, new Date().toISOString());
+                this.markChanged();
+            });
+            if (migration.models) this.saveMigratedModels(migration.models.up);
+        }
 
-        const builtQuery = buildAggregateQuery(query, this.models[table.name]);
-        return this.db.prepare(builtQuery.query).values(...builtQuery.params);
+        return { applied: pending.map((f) => f.name), rolledBack };
     }
 
-    public save<T extends SqlTable>(obj: T): T {
-        const model = this.models[obj.constructor.name];
-        if (model == null) throw new DBModelNotFound(obj.constructor as typeof SqlTable);
+    /**
+     * Rolls back the latest applied migrations, each one in its own transaction, same as `migrate()`.
+     * @param steps number of migrations to roll back
+     * @returns names of rolled back migrations
+     */
+    public async rollback(steps = 1): Promise<string[]> {
+        const files = this.migrationFiles();
+        const rolledBack = this.appliedMigrations().reverse().slice(0, steps);
+
+        for (const row of rolledBack) {
+            const file = files.find((f) => f.version === row.version);
+            if (file == null) throw new DBMigrationError(`migration ${row.name} was applied but its file does not exist`);
+
+            const migration = await loadMigration(file);
+            SqliteOrm.logInfo(this.opts, `rolling back migration ${file.name}`);
+
+            await this.waitForTransactions();
+            await this.schemaTransaction(async () => {
+                await migration.down(this);
+                this.db.exec(`DELETE FROM main.'${migrationTable}' WHERE "version" = ?`, file.version);
+                this.markChanged();
+            });
+            if (migration.models) this.saveMigratedModels(migration.models.down);
+        }
 
-        const builtData: Record<string, unknown> = {};
-        model.columns.forEach((col) => {
-            builtData[col.mappedTo ?? col.name] = this.serialize((obj as Record<string, unknown>)[col.name], col.type);
-        });
+        return rolledBack.map((m) => m.name);
+    }
 
-        if (obj._new) {
-            const builtQuery = buildInsertQuery(model, builtData);
-            this.db.exec(builtQuery.query, ...builtQuery.params);
+    /**
+     * Directory containing migration files.
+     */
+    public get migrationsDir() {
+        return this.opts.migrationsDir;
+    }
 
-            const incrementPrimaryKey = model.columns.find((c) => c.isPrimaryKey && c.autoIncrement);
-            if (incrementPrimaryKey) {
-                (obj as Record<string, unknown>)[incrementPrimaryKey.name] = this.db.lastInsertRowId;
+    /**
+     * Saves the models of tables migrated by a generated migration, so that they are not migrated again.
+     */
+    private saveMigratedModels(models: Record<string, Model | null>) {
+        const saved = ModelReader.read(this.opts.dbPath);
+        for (const [name, model] of Object.entries(models)) {
+            if (model == null) {
+                delete saved[name];
+            } else {
+                saved[name] = model;
             }
-
-            obj._new = false;
-        } else {
-            const builtQuery = buildUpdateQuery(model, builtData);
-            this.db.exec(builtQuery.query, ...builtQuery.params);
         }
-        this.hasChangesSinceBackup = true;
+        ModelReader.write(saved, this.opts.dbPath);
+        this.lastModels = ModelReader.read(this.opts.dbPath);
+    }
 
-        return obj;
+    private migrationFiles(): MigrationFile[] {
+        if (this.opts.migrationsDir == null) return [];
+        return readMigrationFiles(this.opts.migrationsDir);
+    }
+
+    /**
+     * Reads all rows of a query that is not reused, e.g. `PRAGMA` queries, without the statement cache.
+     */
+    private readOnce<T extends object = Record<string, any>>(query: string, ...params: string[]): T[] {
+        const statement = this.db.prepare(query);
+        try {
+            return statement.all<T>(...params);
+        } finally {
+            statement.finalize();
+        }
     }
 
-    public delete<T extends SqlTable>(table: new () => T, query: DeleteQuery) {
-        const built = buildDeleteQuery(query, this.models[table.name]);
-        this.db.exec(built.query, ...built.params);
-        this.hasChangesSinceBackup = true;
+    /**
+     * Applied migrations sorted by version.
+     */
+    private appliedMigrations() {
+        // the table is created when the first migration is applied
+        if (this.readOnce(`SELECT 1 FROM main.sqlite_master WHERE type = 'table' AND name = ?`, migrationTable).length === 0) return [];
+        return this.readOnce<{ version: number; name: string; appliedAt: string }>(`SELECT * FROM main.'${migrationTable}' ORDER BY "version"`);
     }
 
-    //#endregion table logic
+    //#endregion migrations
 
     //#region decorators
 
@@ -319,7 +2468,6 @@ export class SqliteOrm {
      */
     public column(data: Partial<TableColumn>) {
         return (model: { constructor: new () => SqlTable } | SqlTable, propertyKey: string) => {
-            if (data.isPrimaryKey && this.tempModelData.find((i) => i.isPrimaryKey)) throw new DBInvalidTable(`${model.constructor.name}: table cannot have two primary keys, existing key (${this.tempModelData.find((i) => i.isPrimaryKey)})`);
             this.createTempColumn(data, new (model as { constructor: new () => SqlTable }).constructor(), propertyKey);
         };
     }
@@ -348,6 +2496,82 @@ export class SqliteOrm {
         });
     }
 
+    /**
+     * Adds a unique constraint on the column.
+     */
+    public unique(unique = true) {
+        return this.column({
+            unique,
+        });
+    }
+
+    /**
+     * Adds an index on a column when used on a property. When used on a class, adds an index on
+     * multiple columns, e.g. `@orm.index(['foo', 'bar'], { unique: true })`.
+     * @param properties properties to index, only when used on a class
+     */
+    public index(): (model: SqlTable, propertyKey: string) => void;
+    public index(properties: string[], options?: IndexOptions): (model: new () => SqlTable) => void;
+    public index(properties?: string[], options: IndexOptions = {}) {
+        return (model: SqlTable | (new () => SqlTable), propertyKey?: string) => {
+            if (propertyKey != null) {
+                this.column({ indexed: true })(model as SqlTable, propertyKey);
+                return;
+            }
+
+            if (properties == null || properties.length === 0) throw new DBInvalidTable(`${(model as new () => SqlTable).name}: an index needs at least one property`);
+
+            // the decorator runs after @orm.model() when it is placed above it
+            const registered = this.models[(model as new () => SqlTable).name];
+            if (registered != null) {
+                registered.indexes.push(buildIndex(registered, properties, options));
+            } else {
+                this.tempIndexes.push({ ...options, properties });
+            }
+        };
+    }
+
+    /**
+     * Sets the column to the time a row is inserted. Timestamps are stored as milliseconds in number
+     * columns, and as ISO 8601 in string columns.
+     */
+    public createdAt() {
+        return this.column({ timestamp: 'createdAt' });
+    }
+
+    /**
+     * Sets the column to the time a row is saved, see `createdAt()`.
+     */
+    public updatedAt() {
+        return this.column({ timestamp: 'updatedAt' });
+    }
+
+    /**
+     * Rows are soft deleted by setting this column to the time they were deleted, soft deleted rows
+     * are excluded from queries unless `withDeleted` is set.
+     * @param type type of the column, `integer` for milliseconds, `string` for ISO 8601 or `date`
+     */
+    public softDelete(type: 'integer' | 'string' | 'date' = 'integer') {
+        return this.column({ timestamp: 'deletedAt', type, nullable: true });
+    }
+
+    /**
+     * Uses the column for optimistic locking. Updates only change a row that still has the version of the
+     * object, and increment it. Saving an object whose row was changed since it was loaded throws
+     * `DBConcurrentModification`.
+     */
+    public version() {
+        return this.column({ type: 'integer', version: true });
+    }
+
+    /**
+     * Stores one of a set of string values, enforced with a CHECK constraint.
+     * @param values allowed values, or a string enum
+     */
+    public enum(values: string[] | Record<string, string>) {
+        return this.column({ type: 'enum', enumValues: values instanceof Array ? values : Object.values(values) });
+    }
+
     /**
      * Maps property to an existing column.
      * @param oldColumnName name of existing column
@@ -368,6 +2592,76 @@ export class SqliteOrm {
         });
     }
 
+    /**
+     * Validation rules checked before objects are inserted or updated, failures are thrown as
+     * `DBValidationError`, e.g. `@orm.validate.min(0)`.
+     */
+    public get validate() {
+        const rule = (rule: Omit<ValidationRule, 'property'>) => (_model: SqlTable, propertyKey: string) => {
+            this.tempRules.push({ ...rule, property: propertyKey });
+        };
+        const sqlValue = (value: PrimitiveTypes) => typeof value === 'string' ? `'${value.replaceAll("'", "''")}'` : typeof value === 'boolean' ? Number(value) : value;
+
+        return {
+            /**
+             * Number has to be at least `min`.
+             */
+            min: (min: number, message = `must be at least ${min}`) =>
+                rule({
+                    rule: 'min',
+                    validate: (value) => value < min ? message : undefined,
+                    check: (col) => `${col} >= ${min}`,
+                }),
+            /**
+             * Number has to be at most `max`.
+             */
+            max: (max: number, message = `must be at most ${max}`) =>
+                rule({
+                    rule: 'max',
+                    validate: (value) => value > max ? message : undefined,
+                    check: (col) => `${col} <= ${max}`,
+                }),
+            /**
+             * Length of a string or array has to be between `min` and `max`.
+             */
+            length: (min: number, max = Infinity, message = max === Infinity ? `length must be at least ${min}` : `length must be between ${min} and ${max}`) =>
+                rule({
+                    rule: 'length',
+                    validate: (value) => value.length < min || value.length > max ? message : undefined,
+                    // the length of json columns would be the length of the stored text
+                    check: (col, type) => type !== 'string' ? undefined : max === Infinity ? `length(${col}) >= ${min}` : `length(${col}) BETWEEN ${min} AND ${max}`,
+                }),
+            /**
+             * String has to match a regular expression.
+             */
+            pattern: (pattern: RegExp, message = `must match ${pattern}`) =>
+                rule({
+                    rule: 'pattern',
+                    validate: (value) => !pattern.test(value) ? message : undefined,
+                }),
+            /**
+             * Value has to be one of `values`.
+             */
+            enum: (values: PrimitiveTypes[], message = `must be one of ${values.join(', ')}`) =>
+                rule({
+                    rule: 'enum',
+                    validate: (value) => !values.includes(value) ? message : undefined,
+                    check: (col) => `${col} IN (${values.map(sqlValue).join(', ')})`,
+                }),
+            /**
+             * Value is validated by a function returning whether it is valid, or why it is invalid.
+             */
+            custom: <T extends SqlTable>(fn: (value: any, obj: T) => boolean | string, message = 'is invalid') =>
+                rule({
+                    rule: 'custom',
+                    validate: (value, obj) => {
+                        const result = fn(value, obj as T);
+                        return typeof result === 'string' ? result : result ? undefined : message;
+                    },
+                }),
+        };
+    }
+
     /**
      * Property is not considered a column.
      */
@@ -381,12 +2675,71 @@ export class SqliteOrm {
         };
     }
 
-    // todo use an object
+    /**
+     * Loads the row referenced by a foreign key on this model into the property, also adds a
+     * foreign key constraint to the table. The target model should be registered before this one.
+     * @param target returns the referenced model
+     * @param foreignKey property holding the foreign key, defaults to `<property>Id`
+     */
+    public belongsTo(target: () => new () => SqlTable, foreignKey?: string, options: RelationOptions = {}) {
+        return (_model: SqlTable, propertyKey: string) => {
+            this.createTempRelation({ ...options, type: 'belongsTo', name: propertyKey, target, foreignKey: foreignKey ?? `${propertyKey}Id` });
+        };
+    }
+
+    /**
+     * Loads all rows of the target model referencing this model into the property.
+     * @param target returns the referencing model
+     * @param foreignKey property of the target model holding the foreign key
+     */
+    public hasMany(target: () => new () => SqlTable, foreignKey: string, options: RelationOptions = {}) {
+        return (_model: SqlTable, propertyKey: string) => {
+            this.createTempRelation({ ...options, type: 'hasMany', name: propertyKey, target, foreignKey });
+        };
+    }
+
+    /**
+     * Loads the row of the target model referencing this model into the property.
+     * @param target returns the referencing model
+     * @param foreignKey property of the target model holding the foreign key
+     */
+    public hasOne(target: () => new () => SqlTable, foreignKey: string, options: RelationOptions = {}) {
+        return (_model: SqlTable, propertyKey: string) => {
+            this.createTempRelation({ ...options, type: 'hasOne', name: propertyKey, target, foreignKey });
+        };
+    }
+
+    /**
+     * Loads all rows of the target model linked to this model through a join table into the property.
+     * The join table is created when `modelsLoaded()` is called, declaring the relation on both models
+     * uses the same join table.
+     * @param target returns the linked model
+     */
+    public manyToMany(target: () => new () => SqlTable, options: ManyToManyOptions = {}) {
+        return (model: SqlTable, propertyKey: string) => {
+            this.createTempRelation({ type: 'manyToMany', name: propertyKey, target, foreignKey: options.foreignKey ?? joinKeyName(model.constructor.name), joinTable: options.joinTable, otherKey: options.otherKey });
+        };
+    }
+
+    /**
+     * Registers a column type that can be set with `@orm.columnType()`, or inferred from default values
+     * with `infer`. Types are shared by all orm instances, register them before the models that use them.
+     * Registering the same definition again, e.g. from another orm instance, does nothing.
+     * @param name name of the type, cannot be a built in type
+     */
+    public registerColumnType<T>(name: string, definition: ColumnTypeDefinition<T>) {
+        registerColumnType(name, definition);
+    }
+
     /**
      * Adds a class to orm models.
-     * @param tableName name of table in database
+     * @param tableNameOrOptions name of table in database, or model options
      */
-    public model(tableName?: string, database = 'main') {
+    public model(tableNameOrOptions?: string | ModelOptions, database = 'main') {
+        const options = typeof tableNameOrOptions === 'object' ? tableNameOrOptions : { tableName: tableNameOrOptions, database };
+        const tableName = options.tableName;
+        database = options.database ?? database;
+
         return (model: new () => SqlTable) => {
             const tempModel = new model();
             const hasPrimaryKey = this.tempModelData.find((i) => i.isPrimaryKey) != null;
@@ -395,93 +2748,74 @@ export class SqliteOrm {
                 if (this.ignoredColumns.includes(k)) continue;
                 if (v == null && this.tempModelData.find((i) => i.name === k) == null) throw new DBInvalidTable(`${tableName ?? model.name}.${k}: Cannot infer type from a null value property`);
 
-                // ignore types other then string, number, boolean or object
-                if (typeof v !== 'string' && typeof v !== 'boolean' && typeof v !== 'object' && typeof v !== 'number') continue;
+                // ignore types other then string, number, boolean, bigint or object
+                if (!isColumnValue(v)) continue;
 
                 if (hasPrimaryKey && k === 'id') continue;
                 if (k.startsWith('_')) continue;
 
-                let type: ColumnType;
-                if (this.tempModelData.find((i) => i.name === k) == null) {
-                    if (typeof v === 'object') {
-                        type = 'json';
-                    } else if (typeof v === 'number') {
-                        type = 'integer';
-                    } else {
-                        type = typeof v as ColumnType;
-                    }
-                } else {
-                    type = this.tempModelData.find((i) => i.name === k)!.type;
-                }
+                // values set by decorators are kept
+                const declared = this.tempModelData.find((i) => i.name === k);
+
+                const type = declared == null ? inferType(v, 'integer') : declared.type;
 
                 this.createTempColumn(
                     {
                         defaultValue: v,
-                        nullable: v == null,
+                        nullable: declared?.nullable ?? v == null,
                         name: k,
                         type: type,
-                        isPrimaryKey: !hasPrimaryKey && k === 'id',
-                        autoIncrement: k === 'id' && !hasPrimaryKey,
+                        isPrimaryKey: declared?.isPrimaryKey ?? (!hasPrimaryKey && k === 'id'),
+                        autoIncrement: declared?.autoIncrement ?? (k === 'id' && !hasPrimaryKey),
                     },
                     tempModel,
                     k,
                 );
             }
 
-            const builtModel = new Model(tableName ?? model.name, this.tempModelData, database);
-            this.models[model.name] = builtModel;
-            this.tempModelData = [];
-
-            // create table if it doesn't exist
-            const info = this.db.prepare(`PRAGMA ${database}.table_info('${model.name}')`).all();
-            if (info.length === 0) {
-                this.hasModelChanges = true;
-                this.db.exec(buildTableQuery(builtModel));
-            } else {
-                // add missing columns
-                const info = this.db.prepare(`PRAGMA ${database}.table_info('${model.name}')`).all();
-                buildAlterQuery(buildModelFromData(builtModel, info), builtModel).forEach((c) => {
-                    this.hasModelChanges = true;
-                    this.db.exec(c);
-                });
+            const builtModel = new Model(tableName ?? model.name, this.tempModelData, database, this.tempRelations);
+            if (options.audit) builtModel.audit = true;
+            if (builtModel.columns.filter((c) => c.isPrimaryKey).length > 1 && builtModel.columns.find((c) => c.autoIncrement)) throw new DBInvalidTable(`${builtModel.tableName}: auto increment cannot be used with a composite primary key`);
+            builtModel.foreignKeys = this.buildForeignKeys(model, builtModel);
+            for (const col of builtModel.columns) {
+                if (col.unique) builtModel.indexes.push(buildIndex(builtModel, [col.name], { unique: true }));
+                if (col.indexed) builtModel.indexes.push(buildIndex(builtModel, [col.name]));
             }
-
-            if (this.lastModels[model.name] == null) { // new a model was added
-                this.hasModelChanges = true;
-                SqliteOrm.logInfo(this.opts, `found new table ${model.name}`);
-            } else {
-                const oldCols = this.lastModels[model.name].columns;
-                const newCols = builtModel.columns;
-                const oldDatabase = this.lastModels[model.name].database;
-
-                if (oldDatabase != null && oldDatabase !== database) {
-                    SqliteOrm.logInfo(this.opts, `database change from ${oldDatabase} to ${database}`);
-                    this.hasModelChanges = true;
+            for (const index of this.tempIndexes) {
+                builtModel.indexes.push(buildIndex(builtModel, index.properties, index));
+            }
+            for (const kind of ['createdAt', 'updatedAt', 'deletedAt']) {
+                const cols = builtModel.columns.filter((c) => c.timestamp === kind);
+                if (cols.length > 1) throw new DBInvalidTable(`${builtModel.tableName}: only one column can be ${kind}`);
+                if (cols[0] && !['integer', 'number', 'string', 'date'].includes(cols[0].type)) throw new DBInvalidTable(`${builtModel.tableName}.${cols[0].name}: timestamps should be date, number or string columns`);
+            }
+            const versions = builtModel.columns.filter((c) => c.version);
+            if (versions.length > 1) throw new DBInvalidTable(`${builtModel.tableName}: only one column can be a version`);
+            if (versions[0] && (versions[0].type !== 'integer' || versions[0].nullable)) throw new DBInvalidTable(`${builtModel.tableName}.${versions[0].name}: version should be a non null integer column`);
+            for (const col of builtModel.columns) {
+                if (col.type === 'date') col.dateFormat = this.opts.dateFormat ?? 'iso';
+                if (col.type === 'enum' && !col.enumValues?.length) throw new DBInvalidTable(`${builtModel.tableName}.${col.name}: enum columns need values, use @orm.enum()`);
+            }
+            for (const rule of this.tempRules) {
+                if (builtModel.columns.find((c) => c.name === rule.property) == null) throw new DBInvalidTable(`${builtModel.tableName}.${rule.property}: cannot validate a property that is not a column`);
+            }
+            if (this.opts.checkConstraints) {
+                for (const col of builtModel.columns) {
+                    const checks = this.tempRules.filter((r) => r.property === col.name && r.check).map((r) => r.check!(`"${col.mappedTo ?? col.name}"`, col.type)).filter((c) => c != null);
+                    if (checks.length > 0) col.check = checks.join(' AND ');
                 }
+            }
 
-                for (const oldCol of oldCols) {
-                    const newCol = newCols.find((c) => (c.mappedTo ?? c.name) === (oldCol.mappedTo ?? oldCol.name));
-                    // missing col
-                    if (newCol == null) {
-                        SqliteOrm.logInfo(this.opts, `[${model.name}] column ${oldCol.name} was removed`);
-                        this.hasModelChanges = true;
-                        continue;
-                    }
-
-                    // changed col
-                    const diff = prettyPrintDiff({ ...oldCol, defaultValue: undefined }, { ...newCol, defaultValue: undefined });
-                    if (diff.length > 0) {
-                        this.hasModelChanges = true;
-                        SqliteOrm.logInfo(this.opts, `[${model.name}] column ${newCol.name} was changed: ${diff}`);
-                    }
-                }
+            this.models[model.name] = builtModel;
+            this.addRelationForeignKeys(model.name, builtModel);
+            this.rules[model.name] = this.tempRules;
+            this.tempModelData = [];
+            this.tempRelations = [];
+            this.tempIndexes = [];
+            this.tempRules = [];
+            this.ignoredColumns = [];
 
-                // new col
-                for (const newCol of newCols.filter((c) => oldCols.find((o) => (o.mappedTo ?? o.name) === (c.mappedTo ?? c.name)) == null)) {
-                    SqliteOrm.logInfo(this.opts, `[${model.name}] column ${newCol.name} was added`);
-                    this.hasModelChanges = true;
-                }
-            }
+            this.diffModel(model.name, builtModel);
         };
     }
 
@@ -556,25 +2890,62 @@ export class SqliteOrm {
      * Cleanly close the database.
      */
     public close() {
+        for (const statement of this.statements.values()) {
+            statement.finalize();
+        }
+        this.statements.clear();
+        this.queryCache.clear();
         this.db.close();
     }
 
     /**
-     * Should be called when all models are loaded. If backups are enabled a
-     * backup is created if tables were been modified.
+     * Should be called when all models are loaded. Tables are migrated unless `SqliteOrm.autoMigrate`
+     * is disabled. If backups are enabled a backup is created if tables were been modified.
      */
     public modelsLoaded() {
+        this.registerJoinTables();
+        this.registerHistoryTables();
+
         for (const m of Object.keys(this.lastModels).filter((k) => this.models[k] == null)) {
-            SqliteOrm.logInfo(this.opts, `${m} was removed`);
-            this.hasModelChanges = true;
+            this.logModelChange(`${m} was removed`);
+        }
+
+        if (SqliteOrm.autoMigrate) {
+            this.applyModelChanges();
         }
+    }
 
-        if (this.hasModelChanges) {
+    /**
+     * Migrates tables to match their models and saves the models. Only needed when
+     * `SqliteOrm.autoMigrate` is disabled, `modelsLoaded()` calls it otherwise.
+     */
+    public applyModelChanges() {
+        const migrations = this.planMigrations();
+        if (this.hasModelChanges || Object.keys(migrations).length > 0) {
             this.doBackup('model-changes');
         }
 
+        this.runMigrations(migrations);
         this.hasModelChanges = false;
+        this.modelChanges = [];
         this.saveModel();
+        this.lastModels = ModelReader.read(this.opts.dbPath);
+    }
+
+    /**
+     * Changes to models since they were last saved, and the migrations that would be run by `applyModelChanges()`.
+     */
+    public pendingModelChanges(): PendingModelChanges {
+        const migrations = this.planMigrations();
+        const names = Object.keys(migrations);
+        return {
+            changes: [...this.modelChanges],
+            migrations,
+            models: {
+                up: Object.fromEntries(names.map((name) => [name, this.models[name]])),
+                down: Object.fromEntries(names.map((name) => [name, this.lastModels[name] ?? null])),
+            },
+        };
     }
 
     public attach(databasePath: string, name?: string) {
@@ -591,6 +2962,300 @@ export class SqliteOrm {
 
     //#endregion misc
 
+    /**
+     * Logs changes of a model since the last time models were saved.
+     * @param name name the model is registered under
+     */
+    private diffModel(name: string, model: Model) {
+        if (this.lastModels[name] == null) { // new a model was added
+            this.logModelChange(`found new table ${name}`);
+        } else {
+            const oldCols = this.lastModels[name].columns;
+            const newCols = model.columns;
+            const oldDatabase = this.lastModels[name].database;
+
+            if (oldDatabase != null && oldDatabase !== model.database) {
+                this.logModelChange(`[${name}] database change from ${oldDatabase} to ${model.database}`);
+            }
+
+            for (const oldCol of oldCols) {
+                const newCol = newCols.find((c) => (c.mappedTo ?? c.name) === (oldCol.mappedTo ?? oldCol.name));
+                // missing col
+                if (newCol == null) {
+                    this.logModelChange(`[${name}] column ${oldCol.name} was removed`);
+                    continue;
+                }
+
+                // changed col
+                const diff = prettyPrintDiff({ ...oldCol, defaultValue: undefined }, { ...newCol, defaultValue: undefined });
+                if (diff.length > 0) {
+                    this.logModelChange(`[${name}] column ${newCol.name} was changed: ${diff}`);
+                }
+            }
+
+            // new col
+            for (const newCol of newCols.filter((c) => oldCols.find((o) => (o.mappedTo ?? o.name) === (c.mappedTo ?? c.name)) == null)) {
+                this.logModelChange(`[${name}] column ${newCol.name} was added`);
+            }
+        }
+    }
+
+    private logModelChange(change: string) {
+        // modelsLoaded() can be called more than once
+        if (this.modelChanges.includes(change)) return;
+        SqliteOrm.logInfo(this.opts, change);
+        this.modelChanges.push(change);
+        this.hasModelChanges = true;
+    }
+
+    /**
+     * Plans migrations of tables that do not match their model.
+     */
+    private planMigrations(): Record<string, TableMigration> {
+        const migrations: Record<string, TableMigration> = {};
+        for (const [name, model] of Object.entries(this.models)) {
+            const columns = this.readOnce<LiveColumn>(`PRAGMA ${model.database}.table_info('${model.tableName}')`);
+            const foreignKeys = this.readOnce<LiveForeignKey>(`PRAGMA ${model.database}.foreign_key_list('${model.tableName}')`);
+            const indexes = this.readOnce<LiveIndex>(`PRAGMA ${model.database}.index_list('${model.tableName}')`).filter((i) => i.origin === 'c');
+            for (const index of indexes) {
+                index.columns = this.readOnce<{ name: string }>(`PRAGMA ${model.database}.index_info('${index.name}')`).map((c) => c.name);
+            }
+
+            const migration = planMigration(name, model, { columns, foreignKeys, indexes }, this.lastModels[name], this.opts.migration);
+            if (migration.queries.length === 0) continue;
+
+            migration.rollbackQueries = planRollback(model, { columns, foreignKeys, indexes }, this.lastModels[name], migration, this.opts.migration);
+            migrations[name] = migration;
+        }
+        return migrations;
+    }
+
+    /**
+     * Creates and migrates tables of all models in one transaction.
+     */
+    private runMigrations(migrations: Record<string, TableMigration>) {
+        if (Object.keys(migrations).length === 0) return;
+
+        try {
+            this.schemaTransaction(() => {
+                for (const [name, migration] of Object.entries(migrations)) {
+                    SqliteOrm.logInfo(this.opts, `[${name}] ${migration.create ? 'creating table' : migration.rebuild ? 'rebuilding table' : 'altering table'}`);
+                    for (const query of migration.queries) {
+                        this.db.exec(query);
+                    }
+                }
+            });
+            this.invalidateQueryCache();
+        } catch (e) {
+            if (e instanceof DBError) throw e;
+            throw new DBMigrationError('failed to migrate tables', { cause: e });
+        }
+    }
+
+    /**
+     * Runs `fn` in a transaction with foreign keys disabled so that tables can be rebuilt,
+     * foreign keys are checked before committing.
+     */
+    private schemaTransaction<R>(fn: () => R): R {
+        const foreignKeys = this.opts.foreignKeys ?? true;
+        // has to be changed outside of a transaction
+        if (foreignKeys) this.db.exec('PRAGMA foreign_keys = OFF');
+
+        const check = () => {
+            if (!foreignKeys) return;
+            const violations = this.readOnce('PRAGMA foreign_key_check');
+            if (violations.length > 0) throw new DBMigrationError(`migrated rows violate foreign keys in ${[...new Set(violations.map((v) => v.table))].join(', ')}`);
+        };
+        const restore = () => {
+            if (foreignKeys) this.db.exec('PRAGMA foreign_keys = ON');
+        };
+
+        let result: R;
+        try {
+            result = this.transaction(() => {
+                const r = fn();
+                if (r instanceof Promise) {
+                    return r.then((v) => {
+                        check();
+                        return v;
+                    }) as R;
+                }
+                check();
+                return r;
+            });
+        } catch (e) {
+            restore();
+            throw e;
+        }
+
+        if (result instanceof Promise) return result.finally(restore) as R;
+        restore();
+        return result;
+    }
+
+    /**
+     * Creates models and tables for `manyToMany` relations.
+     */
+    private registerJoinTables() {
+        for (const [name, model] of Object.entries(this.models)) {
+            for (const relation of model.relations.filter((r) => r.type === 'manyToMany')) {
+                const target = relation.target();
+                const targetModel = this.models[target.name];
+                if (targetModel == null) throw new DBModelNotFound(target);
+
+                relation.otherKey ??= joinKeyName(target.name);
+                relation.joinTable ??= [model.tableName, targetModel.tableName].sort().join('_');
+                if (relation.foreignKey === relation.otherKey) throw new DBInvalidTable(`${name}.${relation.name}: join table columns cannot have the same name, set foreignKey and otherKey`);
+
+                const existing = this.models[relation.joinTable];
+                if (existing != null) {
+                    // registered by the other side of the relation
+                    if (![relation.foreignKey, relation.otherKey].every((k) => existing.columns.find((c) => (c.mappedTo ?? c.name) === k))) {
+                        throw new DBInvalidTable(`${name}.${relation.name}: ${relation.joinTable} does not have columns ${relation.foreignKey} and ${relation.otherKey}`);
+                    }
+                    continue;
+                }
+
+                const keys: [string, Model][] = [[relation.foreignKey, model], [relation.otherKey, targetModel]];
+                const joinModel = new Model(
+                    relation.joinTable,
+                    keys.map(([key, m]) => ({
+                        name: key,
+                        type: singlePrimaryKey(m, m.tableName).type,
+                        nullable: false,
+                        defaultValue: null,
+                        isPrimaryKey: true,
+                        autoIncrement: false,
+                    })),
+                    model.database,
+                    [],
+                    keys.map(([key, m]) => {
+                        const primaryKey = m.columns.find((c) => c.isPrimaryKey)!;
+                        return { column: key, table: m.tableName, references: primaryKey.mappedTo ?? primaryKey.name, onDelete: 'cascade' };
+                    }),
+                );
+
+                this.models[relation.joinTable] = joinModel;
+                this.diffModel(relation.joinTable, joinModel);
+            }
+        }
+    }
+
+    /**
+     * Creates models and tables that record the changes of audited models.
+     */
+    private registerHistoryTables() {
+        for (const [name, model] of Object.entries(this.models)) {
+            if (!model.audit) continue;
+
+            const historyName = historyTableName(model);
+            const existing = this.models[historyName];
+            // registered when models were loaded before
+            if (existing != null && this.historyModels.has(existing)) continue;
+            if (existing != null) throw new DBInvalidTable(`${name}: ${historyName} is already registered`);
+            if (model.columns.every((c) => !c.isPrimaryKey)) throw new DBInvalidTable(`${name}: audited models need a primary key`);
+
+            const column = (name: string, type: ColumnType, nullable = false): TableColumn => ({ name, type, nullable, defaultValue: null, isPrimaryKey: false, autoIncrement: false });
+            const historyModel = new Model(
+                historyName,
+                [
+                    { ...column('historyId', 'integer'), isPrimaryKey: true, autoIncrement: true },
+                    // primary key of the row as JSON
+                    column('key', 'string'),
+                    { ...column('operation', 'enum'), enumValues: ['insert', 'update', 'delete'] },
+                    column('at', 'integer'),
+                    column('actor', 'string', true),
+                    column('data', 'string'),
+                ],
+                model.database,
+            );
+            historyModel.indexes.push(buildIndex(historyModel, ['key', 'at']));
+
+            this.models[historyName] = historyModel;
+            this.historyModels.add(historyModel);
+            this.diffModel(historyName, historyModel);
+        }
+    }
+
+    private createTempRelation(relation: Relation) {
+        const index = this.tempModelData.findIndex((i) => i.name === relation.name);
+        if (index > -1) {
+            this.tempModelData.splice(index, 1);
+        }
+        this.ignoredColumns.push(relation.name);
+        this.tempRelations.push(relation);
+    }
+
+    /**
+     * Builds foreign keys from `belongsTo` relations of the model, and from `hasMany`/`hasOne`
+     * relations of registered models targeting it.
+     */
+    private buildForeignKeys(modelClass: new () => SqlTable, model: Model): ForeignKey[] {
+        const keys: ForeignKey[] = [];
+
+        for (const relation of model.relations.filter((r) => r.type === 'belongsTo')) {
+            const target = relation.target();
+            const targetModel = target === modelClass ? model : this.models[target.name];
+            if (targetModel == null) throw new DBInvalidTable(`${modelClass.name}.${relation.name}: ${target.name} should be registered before ${modelClass.name}`);
+
+            const col = model.columns.find((c) => c.name === relation.foreignKey);
+            if (col == null) throw new DBInvalidTable(`${modelClass.name}.${relation.name}: foreign key column ${relation.foreignKey} does not exist`);
+
+            keys.push({ column: col.mappedTo ?? col.name, ...foreignKeyTarget(targetModel, target.name), onDelete: relation.onDelete, onUpdate: relation.onUpdate });
+        }
+
+        for (const [name, other] of Object.entries(this.models)) {
+            for (const relation of other.relations.filter((r) => r.type === 'hasMany' || r.type === 'hasOne')) {
+                let target;
+                try {
+                    target = relation.target();
+                } catch (_e) {
+                    // target is declared after this model
+                    continue;
+                }
+                if (target !== modelClass) continue;
+
+                const key = this.relationForeignKey(name, other, relation, modelClass.name, model);
+                if (keys.find((k) => k.column === key.column)) continue;
+                keys.push(key);
+            }
+        }
+
+        return keys;
+    }
+
+    /**
+     * Adds foreign keys of `hasMany`/`hasOne` relations of a model to the registered models they target,
+     * models registered later get them from `buildForeignKeys()`.
+     */
+    private addRelationForeignKeys(name: string, model: Model) {
+        for (const relation of model.relations.filter((r) => r.type === 'hasMany' || r.type === 'hasOne')) {
+            let target;
+            try {
+                target = relation.target();
+            } catch (_e) {
+                // target is declared after this model
+                continue;
+            }
+            const targetModel = this.models[target.name];
+            if (targetModel == null) continue;
+
+            const key = this.relationForeignKey(name, model, relation, target.name, targetModel);
+            if (targetModel.foreignKeys.find((k) => k.column === key.column)) continue;
+            targetModel.foreignKeys.push(key);
+        }
+    }
+
+    /**
+     * Foreign key of the target of a `hasMany`/`hasOne` relation, referencing the model of the relation.
+     */
+    private relationForeignKey(name: string, model: Model, relation: Relation, targetName: string, target: Model): ForeignKey {
+        const col = target.columns.find((c) => c.name === relation.foreignKey);
+        if (col == null) throw new DBInvalidTable(`${name}.${relation.name}: foreign key column ${targetName}.${relation.foreignKey} does not exist`);
+
+        return { column: col.mappedTo ?? col.name, ...foreignKeyTarget(model, name), onDelete: relation.onDelete, onUpdate: relation.onUpdate };
+    }
+
     private createTempColumn(data: Partial<TableColumn>, model: SqlTable & Record<string, any>, propertyKey: string) {
         const index = this.tempModelData.findIndex((i) => i.name == propertyKey);
         if (index > -1) {
@@ -598,14 +3263,14 @@ export class SqliteOrm {
             return;
         }
 
-        if (typeof model[propertyKey] !== 'string' && typeof model[propertyKey] !== 'boolean' && typeof model[propertyKey] !== 'number' && typeof model[propertyKey] !== 'object' && model[propertyKey] != null) throw new DBInvalidTable(`${model.constructor.name}.${propertyKey} has an invalid type, (${typeof model[propertyKey]} is not valid)`);
+        if (!isColumnValue(model[propertyKey]) && model[propertyKey] != null) throw new DBInvalidTable(`${model.constructor.name}.${propertyKey} has an invalid type, (${typeof model[propertyKey]} is not valid)`);
 
         data.name = propertyKey;
         data.defaultValue = model[propertyKey];
 
         if (data.type == null) {
             if (model[propertyKey] == null) throw new DBInvalidTable(`${model.constructor.name}.${propertyKey}: type must be specified for a column with null value`);
-            data.type = typeof model[propertyKey] == 'object' ? 'json' : typeof model[propertyKey] as ColumnType;
+            data.type = inferType(model[propertyKey], 'number');
         }
 
         if (data.isPrimaryKey == null && !this.tempModelData.find((i) => i.isPrimaryKey) && data.name === 'id') {
@@ -625,7 +3290,10 @@ export class SqliteOrm {
         this.tempModelData.push(data as Required<TableColumn>);
     }
 
-    private serialize(data: any, type: ColumnType) {
+    /**
+     * Converts a property value into the value that is stored in its column.
+     */
+    public serialize(data: any, type: ColumnType) {
         if (data == null) return null;
         switch (type) {
             case 'boolean': {
@@ -652,8 +3320,22 @@ export class SqliteOrm {
                 if (typeof data !== 'object') throw new DBInvalidData('Cannot convert non object type into JSON');
                 return JSON.stringify(jsonify(data));
             }
+            case 'date': {
+                if (!(data instanceof Date) || isNaN(data.getTime())) throw new DBInvalidData('Cannot store a non date or invalid date on a date column');
+                return (this.opts.dateFormat ?? 'iso') === 'iso' ? data.toISOString() : data.getTime();
+            }
+            case 'bigint': {
+                if (typeof data !== 'bigint') throw new DBInvalidData('Cannot store a non bigint type on a bigint column');
+                return data;
+            }
+            case 'enum': {
+                if (typeof data !== 'string') throw new DBInvalidData('Cannot store a non string type on an enum column');
+                return data;
+            }
             default: {
-                throw new Error(`Unknown column type: ${type}`);
+                const definition = getColumnType(type);
+                if (definition.validate && !definition.validate(data)) throw new DBInvalidData(`Cannot store ${data} on a ${type} column`);
+                return definition.serialize(data);
             }
         }
     }
@@ -690,6 +3372,22 @@ export class SqliteOrm {
                     throw new DBInvalidData('Column contains invalid JSON data', { cause: e });
                 }
             }
+            case 'date': {
+                // read both formats, so that changing the format doesn't break existing rows
+                if (typeof data !== 'string' && typeof data !== 'number') throw new DBInvalidData(`Column contains ${data} instead of a date`);
+                return new Date(data);
+            }
+            case 'bigint': {
+                if (typeof data !== 'number' && typeof data !== 'bigint') throw new DBInvalidData(`Column contains ${data} instead of a bigint`);
+                return BigInt(data);
+            }
+            case 'enum': {
+                if (typeof data !== 'string') throw new DBInvalidData(`Column contains ${data} instead of an enum value`);
+                return data;
+            }
+            default: {
+                return getColumnType(type).deserialize(data);
+            }
         }
     }
 
@@ -0,0 +1,349 @@
+import { assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.192.0/testing/asserts.ts';
+import { join } from 'https://deno.land/std@0.192.0/path/mod.ts';
+import { DBConcurrentModification, DBError, DBInvalidData } from './errors.ts';
+import { SqliteOrm, SqlTable } from './orm.ts';
+
+Deno.test('modelsLoaded can be called again with audited models', () => {
+    const dir = Deno.makeTempDirSync();
+    const orm = new SqliteOrm({ dbPath: join(dir, 'test.db') });
+
+    try {
+        @orm.model({ audit: true })
+        class Foo extends SqlTable {
+            public name = '';
+        }
+
+        orm.modelsLoaded();
+        orm.modelsLoaded();
+
+        const foo = orm.save(Object.assign(new Foo(), { name: 'foo' }));
+        assertEquals(orm.history(Foo, foo.id).map((e) => e.operation), ['insert']);
+    } finally {
+        orm.close();
+        Deno.removeSync(dir, { recursive: true });
+    }
+});
+
+Deno.test('errors thrown by change listeners do not fail the committed write', async () => {
+    const dir = Deno.makeTempDirSync();
+    const orm = new SqliteOrm({ dbPath: join(dir, 'test.db') });
+    const errors: unknown[] = [];
+    const onError = (event: ErrorEvent) => {
+        event.preventDefault();
+        errors.push(event.error);
+    };
+    globalThis.addEventListener('error', onError);
+
+    try {
+        @orm.model()
+        class Foo extends SqlTable {
+            public name = '';
+        }
+
+        orm.modelsLoaded();
+        const failure = new Error('listener failed');
+        const received: string[] = [];
+        orm.on('insert', Foo, () => {
+            throw failure;
+        });
+        orm.on('insert', Foo, (event) => received.push(event.new?.name ?? ''));
+
+        orm.save(Object.assign(new Foo(), { name: 'foo' }));
+        await orm.transaction(async () => {
+            await Promise.resolve();
+            orm.save(Object.assign(new Foo(), { name: 'bar' }));
+        });
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        assertEquals(received, ['foo', 'bar']);
+        assertEquals(orm.findMany(Foo, {}).map((f) => f.name), ['foo', 'bar']);
+        assertEquals(errors, [failure, failure]);
+    } finally {
+        globalThis.removeEventListener('error', onError);
+        orm.close();
+        Deno.removeSync(dir, { recursive: true });
+    }
+});
+
+Deno.test('nested transactions roll back to their savepoint', () => {
+    const dir = Deno.makeTempDirSync();
+    const orm = new SqliteOrm({ dbPath: join(dir, 'test.db') });
+
+    try {
+        @orm.model()
+        class Foo extends SqlTable {
+            public name = '';
+        }
+
+        orm.modelsLoaded();
+        const outer = Object.assign(new Foo(), { name: 'outer' });
+        const inner = Object.assign(new Foo(), { name: 'inner' });
+        orm.transaction(() => {
+            orm.save(outer);
+            assertThrows(
+                () =>
+                    orm.transaction(() => {
+                        orm.save(inner);
+                        throw new Error('inner failed');
+                    }),
+                Error,
+                'inner failed',
+            );
+        });
+
+        assertEquals(orm.findMany(Foo, {}).map((f) => f.name), ['outer']);
+        assertEquals([outer._new, inner._new, inner.id], [false, true, -1]);
+
+        const other = Object.assign(new Foo(), { name: 'other' });
+        assertThrows(
+            () =>
+                orm.transaction(() => {
+                    orm.save(other);
+                    orm.transaction(() => orm.save(Object.assign(new Foo(), { name: 'nested' })));
+                    throw new Error('outer failed');
+                }),
+            Error,
+            'outer failed',
+        );
+
+        assertEquals(orm.findMany(Foo, {}).map((f) => f.name), ['outer']);
+        assertEquals([other._new, other.id], [true, -1]);
+        assertEquals(orm.inTransaction, false);
+    } finally {
+        orm.close();
+        Deno.removeSync(dir, { recursive: true });
+    }
+});
+
+Deno.test('transactions of other async contexts are waited for or rejected', async () => {
+    const dir = Deno.makeTempDirSync();
+    const orm = new SqliteOrm({ dbPath: join(dir, 'test.db') });
+
+    try {
+        @orm.model()
+        class Foo extends SqlTable {
+            public name = '';
+        }
+
+        orm.modelsLoaded();
+        let release!: () => void;
+        const released = new Promise<void>((resolve) => release = resolve);
+        const order: string[] = [];
+        const first = orm.transaction(async () => {
+            orm.save(Object.assign(new Foo(), { name: 'first' }));
+            await released;
+            order.push('first');
+        });
+
+        assertEquals(orm.inTransaction, false);
+        assertThrows(
+            () => orm.save(Object.assign(new Foo(), { name: 'outside' })),
+            DBError,
+        );
+        assertThrows(() => orm.transaction(() => {}), DBError);
+
+        const second = orm.transaction(async () => {
+            order.push('second');
+            await Promise.resolve();
+            orm.save(Object.assign(new Foo(), { name: 'second' }));
+        });
+        release();
+        await Promise.all([first, second]);
+
+        assertEquals(order, ['first', 'second']);
+        assertEquals(orm.findMany(Foo, {}).map((f) => f.name), ['first', 'second']);
+
+        await assertRejects(
+            () =>
+                orm.transaction(async () => {
+                    orm.save(Object.assign(new Foo(), { name: 'rolled back' }));
+                    await Promise.resolve();
+                    throw new Error('failed');
+                }),
+            Error,
+            'failed',
+        );
+        assertEquals(orm.findMany(Foo, {}).length, 2);
+    } finally {
+        orm.close();
+        Deno.removeSync(dir, { recursive: true });
+    }
+});
+
+Deno.test('migrate applies pending migrations and rolls back to a version', async () => {
+    const dir = Deno.makeTempDirSync();
+    const migrationsDir = join(dir, 'migrations');
+    Deno.mkdirSync(migrationsDir);
+    const writeMigration = (name: string, table: string) => {
+        Deno.writeTextFileSync(
+            join(migrationsDir, `${name}.ts`),
+            `export function up(orm) { orm.db.exec('CREATE TABLE ${table} (x)'); }\nexport function down(orm) { orm.db.exec('DROP TABLE ${table}'); }\n`,
+        );
+    };
+    const orm = new SqliteOrm({ dbPath: join(dir, 'test.db'), migrationsDir });
+    const tables = () =>
+        orm.db.prepare(
+            `SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 't_' ORDER BY name`,
+        ).values().flat();
+
+    try {
+        orm.modelsLoaded();
+        writeMigration('0001_a', 'ta');
+        writeMigration('0003_c', 'tc');
+        assertEquals(await orm.migrate(), {
+            applied: ['0001_a', '0003_c'],
+            rolledBack: [],
+        });
+        assertEquals(await orm.migrate(), { applied: [], rolledBack: [] });
+
+        // a migration added before the latest applied one is still applied
+        writeMigration('0002_b', 'tb');
+        assertEquals(orm.migrationStatus().map((s) => [s.name, s.applied]), [
+            ['0001_a', true],
+            ['0002_b', false],
+            ['0003_c', true],
+        ]);
+        assertEquals(await orm.migrate({ to: 2 }), {
+            applied: ['0002_b'],
+            rolledBack: ['0003_c'],
+        });
+        assertEquals(tables(), ['ta', 'tb']);
+
+        assertEquals(await orm.rollback(2), ['0002_b', '0001_a']);
+        assertEquals(tables(), []);
+        assertEquals(await orm.migrate(), {
+            applied: ['0001_a', '0002_b', '0003_c'],
+            rolledBack: [],
+        });
+        assertEquals(tables(), ['ta', 'tb', 'tc']);
+    } finally {
+        orm.close();
+        Deno.removeSync(dir, { recursive: true });
+    }
+});
+
+Deno.test('failed migrations are rolled back', async () => {
+    const dir = Deno.makeTempDirSync();
+    const migrationsDir = join(dir, 'migrations');
+    Deno.mkdirSync(migrationsDir);
+    Deno.writeTextFileSync(
+        join(migrationsDir, '0001_fail.ts'),
+        `export function up(orm) { orm.db.exec('CREATE TABLE ta (x)'); throw new Error('up failed'); }\nexport function down() {}\n`,
+    );
+    const orm = new SqliteOrm({ dbPath: join(dir, 'test.db'), migrationsDir });
+
+    try {
+        orm.modelsLoaded();
+        await assertRejects(() => orm.migrate(), Error, 'up failed');
+        assertEquals(orm.migrationStatus().map((s) => s.applied), [false]);
+        assertEquals(
+            orm.db.prepare(`SELECT name FROM sqlite_master WHERE name = 'ta'`).all(),
+            [],
+        );
+    } finally {
+        orm.close();
+        Deno.removeSync(dir, { recursive: true });
+    }
+});
+
+Deno.test('save only writes changed columns and checks the version', () => {
+    const dir = Deno.makeTempDirSync();
+    const orm = new SqliteOrm({ dbPath: join(dir, 'test.db') });
+
+    try {
+        @orm.model()
+        class Foo extends SqlTable {
+            public name = '';
+            public count = 0n;
+            @orm.version()
+            public version = 0;
+        }
+
+        orm.modelsLoaded();
+        const foo = orm.save(Object.assign(new Foo(), { name: 'foo', count: 5n }));
+        const loaded = orm.findOne(Foo, foo.id);
+        assertEquals(orm.isDirty(loaded), false);
+        orm.save(loaded);
+        assertEquals(orm.findOne(Foo, foo.id).version, foo.version);
+
+        loaded.name = 'changed';
+        assertEquals(orm.isDirty(loaded), true);
+        orm.save(loaded);
+        assertEquals(loaded.version, foo.version + 1);
+
+        foo.count = 6n;
+        assertThrows(() => orm.save(foo), DBConcurrentModification);
+
+        loaded.id = 100;
+        assertThrows(() => orm.save(loaded), DBInvalidData);
+    } finally {
+        orm.close();
+        Deno.removeSync(dir, { recursive: true });
+    }
+});
+
+Deno.test('soft deleted rows are excluded and can be restored', () => {
+    const dir = Deno.makeTempDirSync();
+    const orm = new SqliteOrm({ dbPath: join(dir, 'test.db') });
+
+    try {
+        @orm.model()
+        class Foo extends SqlTable {
+            public name = '';
+            @orm.version()
+            public version = 0;
+            @orm.softDelete()
+            public deletedAt: number | null = null;
+        }
+
+        orm.modelsLoaded();
+        const foo = orm.save(Object.assign(new Foo(), { name: 'foo' }));
+        orm.delete(Foo, { where: { clause: 'name = ?', values: ['foo'] } });
+        assertEquals(orm.findMany(Foo, {}), []);
+        assertEquals(
+            orm.findMany(Foo, { withDeleted: true }).map((f) => f.version),
+            [foo.version + 1],
+        );
+
+        // the object was loaded before the row was deleted
+        foo.name = 'changed';
+        assertThrows(() => orm.save(foo), DBConcurrentModification);
+
+        assertEquals(
+            orm.restore(Foo, { where: { clause: 'name = ?', values: ['foo'] } }),
+            1,
+        );
+        assertEquals(orm.findMany(Foo, {}).map((f) => f.name), ['foo']);
+    } finally {
+        orm.close();
+        Deno.removeSync(dir, { recursive: true });
+    }
+});
+
+Deno.test('cached query results are invalidated by writes', () => {
+    const dir = Deno.makeTempDirSync();
+    const orm = new SqliteOrm({ dbPath: join(dir, 'test.db') });
+
+    try {
+        @orm.model()
+        class Foo extends SqlTable {
+            public name = '';
+        }
+
+        orm.modelsLoaded();
+        orm.save(Object.assign(new Foo(), { name: 'foo' }));
+        assertEquals(orm.findMany(Foo, { cache: true }).length, 1);
+        assertEquals(orm.findMany(Foo, { cache: true }).length, 1);
+        orm.save(Object.assign(new Foo(), { name: 'bar' }));
+        assertEquals(orm.findMany(Foo, { cache: true }).length, 2);
+        assertEquals(orm.queryCacheStats, {
+            size: 1,
+            hits: 1,
+            misses: 2,
+            invalidations: 1,
+        });
+    } finally {
+        orm.close();
+        Deno.removeSync(dir, { recursive: true });
+    }
+});
@@ -0,0 +1,272 @@
+import { DBInvalidData, DBModelNotFound } from './errors.ts';
+import type { AggregateSelectQuery, DeleteQuery, Model, SelectQuery, SqliteOrm, SqlTable, TableColumn, WhereClause } from './orm.ts';
+
+/**
+ * Names of the properties of `T` that can be columns.
+ */
+export type ColumnName<T extends SqlTable> = Exclude<{ [K in keyof T]: T[K] extends (...args: any[]) => any ? never : K }[keyof T] & string, '_new'>;
+
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'like' | 'not like';
+export type ListOperator = 'in' | 'not in';
+export type NullOperator = 'is null' | 'is not null';
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+interface Condition {
+    joiner: 'AND' | 'OR';
+    clause: string;
+    values: any[];
+}
+
+/**
+ * Builds a where clause out of model properties. Properties are translated to their
+ * column names and values are serialized the same way as when saving.
+ */
+export class WhereBuilder<T extends SqlTable> {
+    protected conditions: Condition[] = [];
+
+    constructor(protected orm: SqliteOrm, protected table: new () => T) {}
+
+    public where<K extends ColumnName<T>>(prop: K, op: ComparisonOperator, value: T[K]): this;
+    public where<K extends ColumnName<T>>(prop: K, op: ListOperator, value: T[K][]): this;
+    public where<K extends ColumnName<T>>(prop: K, op: NullOperator): this;
+    public where(group: (q: WhereBuilder<T>) => WhereBuilder<T>): this;
+    public where(propOrGroup: string | ((q: WhereBuilder<T>) => WhereBuilder<T>), op?: string, value?: any): this {
+        return this.addCondition('AND', propOrGroup, op, value);
+    }
+
+    public andWhere<K extends ColumnName<T>>(prop: K, op: ComparisonOperator, value: T[K]): this;
+    public andWhere<K extends ColumnName<T>>(prop: K, op: ListOperator, value: T[K][]): this;
+    public andWhere<K extends ColumnName<T>>(prop: K, op: NullOperator): this;
+    public andWhere(group: (q: WhereBuilder<T>) => WhereBuilder<T>): this;
+    public andWhere(propOrGroup: string | ((q: WhereBuilder<T>) => WhereBuilder<T>), op?: string, value?: any): this {
+        return this.addCondition('AND', propOrGroup, op, value);
+    }
+
+    public orWhere<K extends ColumnName<T>>(prop: K, op: ComparisonOperator, value: T[K]): this;
+    public orWhere<K extends ColumnName<T>>(prop: K, op: ListOperator, value: T[K][]): this;
+    public orWhere<K extends ColumnName<T>>(prop: K, op: NullOperator): this;
+    public orWhere(group: (q: WhereBuilder<T>) => WhereBuilder<T>): this;
+    public orWhere(propOrGroup: string | ((q: WhereBuilder<T>) => WhereBuilder<T>), op?: string, value?: any): this {
+        return this.addCondition('OR', propOrGroup, op, value);
+    }
+
+    /**
+     * Compiles the conditions into a where clause, `undefined` when there are no conditions.
+     */
+    public buildWhere(): WhereClause['where'] | undefined {
+        if (this.conditions.length === 0) return undefined;
+
+        const values: any[] = [];
+        const str: string[] = [];
+        for (const [i, condition] of this.conditions.entries()) {
+            if (i > 0) str.push(condition.joiner);
+            str.push(condition.clause);
+            values.push(...condition.values);
+        }
+
+        return {
+            clause: str.join(' '),
+            values,
+        };
+    }
+
+    protected get model(): Model {
+        const model = this.orm.models[this.table.name];
+        if (model == null) throw new DBModelNotFound(this.table);
+        return model;
+    }
+
+    protected column(prop: string): TableColumn {
+        const col = this.model.columns.find((c) => c.name === prop);
+        if (col == null) throw new DBInvalidData(`${this.model.tableName}.${prop} is not a column`);
+        return col;
+    }
+
+    protected columnName(prop: string) {
+        const col = this.column(prop);
+        return `"${col.mappedTo ?? col.name}"`;
+    }
+
+    private addCondition(joiner: 'AND' | 'OR', propOrGroup: string | ((q: WhereBuilder<T>) => WhereBuilder<T>), op?: string, value?: any): this {
+        if (typeof propOrGroup === 'function') {
+            const group = propOrGroup(new WhereBuilder(this.orm, this.table)).buildWhere();
+            if (group == null) return this;
+
+            this.conditions.push({ joiner, clause: `(${group.clause})`, values: group.values ?? [] });
+            return this;
+        }
+
+        const col = this.column(propOrGroup);
+        const name = this.columnName(propOrGroup);
+
+        switch (op) {
+            case 'is null':
+            case 'is not null':
+                this.conditions.push({ joiner, clause: `${name} ${op.toUpperCase()}`, values: [] });
+                break;
+            case 'in':
+            case 'not in': {
+                if (!(value instanceof Array)) throw new DBInvalidData(`${this.model.tableName}.${col.name}: '${op}' requires an array of values`);
+                this.conditions.push({
+                    joiner,
+                    clause: `${name} ${op.toUpperCase()} (${value.map(() => '?').join(', ')})`,
+                    values: value.map((v) => this.orm.serialize(v, col.type)),
+                });
+                break;
+            }
+            case '=':
+            case '!=':
+            case '<':
+            case '<=':
+            case '>':
+            case '>=':
+            case 'like':
+            case 'not like':
+                this.conditions.push({ joiner, clause: `${name} ${op.toUpperCase()} ?`, values: [this.orm.serialize(value, col.type)] });
+                break;
+            default:
+                throw new DBInvalidData(`Unknown operator: ${op}`);
+        }
+
+        return this;
+    }
+}
+
+/**
+ * Typed query for a model, created by `orm.query(Model)`.
+ */
+export class QueryBuilder<T extends SqlTable> extends WhereBuilder<T> {
+    private order: string[] = [];
+    private groups: string[] = [];
+    private havings: Condition[] = [];
+    private limitCount?: number;
+    private offsetCount?: number;
+    private includeDeleted = false;
+    private cacheFor?: boolean | number;
+
+    public orderBy(prop: ColumnName<T>, direction: 'asc' | 'desc' = 'asc'): this {
+        this.order.push(`${this.columnName(prop)} ${direction.toUpperCase()}`);
+        return this;
+    }
+
+    public groupBy(...props: ColumnName<T>[]): this {
+        this.groups.push(...props.map((p) => this.columnName(p)));
+        return this;
+    }
+
+    /**
+     * Filters groups by an aggregate, e.g. `having('count', '*', '>', 2)`.
+     */
+    public having(fn: AggregateFunction, prop: ColumnName<T> | '*', op: ComparisonOperator, value: number): this {
+        this.havings.push({ joiner: 'AND', clause: `${this.aggregateExpression(fn, prop)} ${op.toUpperCase()} ?`, values: [value] });
+        return this;
+    }
+
+    public limit(limit: number): this {
+        this.limitCount = limit;
+        return this;
+    }
+
+    public offset(offset: number): this {
+        this.offsetCount = offset;
+        return this;
+    }
+
+    /**
+     * Includes soft deleted rows.
+     */
+    public withDeleted(withDeleted = true): this {
+        this.includeDeleted = withDeleted;
+        return this;
+    }
+
+    /**
+     * Reads results from the query cache, see `CacheOptions`.
+     * @param cache `true` for the default time to live, or milliseconds
+     */
+    public cache(cache: boolean | number = true): this {
+        this.cacheFor = cache;
+        return this;
+    }
+
+    /**
+     * Compiles the query into a `SelectQuery`.
+     */
+    public build(): SelectQuery {
+        const query: SelectQuery = {};
+
+        const where = this.buildWhere();
+        if (where) query.where = where;
+        if (this.order.length > 0) query.order = { by: this.order.join(', ') };
+        if (this.limitCount != null) query.limit = this.limitCount;
+        if (this.offsetCount != null) query.offset = this.offsetCount;
+        if (this.includeDeleted) query.withDeleted = true;
+        if (this.cacheFor != null) query.cache = this.cacheFor;
+
+        return query;
+    }
+
+    /**
+     * Returns all matching rows.
+     */
+    public all(): T[] {
+        return this.orm.findMany(this.table, this.build());
+    }
+
+    /**
+     * Returns the first matching row, throws `DBNotFound` when nothing matches.
+     */
+    public first(): T {
+        return this.orm.findOne(this.table, this.build());
+    }
+
+    /**
+     * Returns the first matching row, or a new instance when nothing matches.
+     */
+    public firstOptional(): T {
+        return this.orm.findOneOptional(this.table, this.build());
+    }
+
+    /**
+     * Counts matching rows, limit, offset and order are ignored.
+     */
+    public count(): number {
+        return this.orm.countWhere(this.table, { where: this.buildWhere() ?? { clause: '1' }, withDeleted: this.includeDeleted, cache: this.cacheFor });
+    }
+
+    /**
+     * Deletes matching rows.
+     */
+    public delete() {
+        const query: DeleteQuery = this.build();
+        this.orm.delete(this.table, query);
+    }
+
+    /**
+     * Selects grouped columns and aggregates, e.g. `groupBy('foo').aggregate('foo', ['count', '*'])`.
+     */
+    public aggregate<Row extends Array<any>>(...select: (ColumnName<T> | [AggregateFunction, ColumnName<T> | '*'])[]): Row[] {
+        const query: AggregateSelectQuery = {
+            ...this.build(),
+            select: {
+                clause: select.map((s) => typeof s === 'string' ? this.columnName(s) : this.aggregateExpression(...s)).join(', '),
+            },
+            group: {
+                cols: this.groups,
+            },
+        };
+
+        if (this.havings.length > 0) {
+            query.having = {
+                clause: this.havings.map((h) => h.clause).join(' AND '),
+                values: this.havings.flatMap((h) => h.values),
+            };
+        }
+
+        return this.orm.aggregateSelect<Row, T>(this.table, query);
+    }
+
+    private aggregateExpression(fn: AggregateFunction, prop: ColumnName<T> | '*') {
+        return `${fn.toUpperCase()}(${prop === '*' ? '*' : this.columnName(prop)})`;
+    }
+}
@@ -0,0 +1,298 @@
+import { buildColumnQuery, buildDropIndexQuery, buildIndexQuery, buildTableQuery, getDefaultValue, getSqlType } from './builder.ts';
+import { DBMigrationError } from './errors.ts';
+import { ColumnType, MigrationOptions, Model, TableColumn, TableIndex } from './orm.ts';
+
+/**
+ * Row of `PRAGMA table_info`.
+ */
+export interface LiveColumn {
+    name: string;
+    type: string;
+    notnull: number;
+    dflt_value: string | null;
+    pk: number;
+}
+
+/**
+ * Row of `PRAGMA foreign_key_list`.
+ */
+export interface LiveForeignKey {
+    from: string;
+    table: string;
+    to: string;
+    on_update: string;
+    on_delete: string;
+}
+
+/**
+ * Row of `PRAGMA index_list`, with the indexed columns from `PRAGMA index_info`.
+ */
+export interface LiveIndex {
+    name: string;
+    unique: number;
+    origin: string;
+    partial: number;
+    columns: string[];
+}
+
+/**
+ * Current state of a table.
+ */
+export interface LiveTable {
+    columns: LiveColumn[];
+    foreignKeys: LiveForeignKey[];
+    /**
+     * Indexes created with `CREATE INDEX`.
+     */
+    indexes: LiveIndex[];
+}
+
+export interface TableMigration {
+    /**
+     * Whether the table does not exist yet.
+     */
+    create: boolean;
+    /**
+     * Whether the table is rebuilt (create new table, copy, drop old table, rename) because
+     * sqlite cannot alter the table in place.
+     */
+    rebuild: boolean;
+    /**
+     * Queries to run, in order.
+     */
+    queries: string[];
+    /**
+     * Queries that undo the migration, used when generating migration files. Rows of
+     * dropped columns and tables cannot be restored.
+     */
+    rollbackQueries?: string[];
+}
+
+function columnName(col: TableColumn) {
+    return col.mappedTo ?? col.name;
+}
+
+/**
+ * Expression that converts a column to the sql type of `col`, dates are converted between ISO 8601 text and milliseconds.
+ */
+function castExpression(name: string, from: TableColumn, col: TableColumn) {
+    if (col.type === 'date' && col.dateFormat === 'unix' && (from.type === 'string' || (from.type === 'date' && from.dateFormat !== 'unix'))) {
+        return `CAST(ROUND((julianday("${name}") - 2440587.5) * 86400000) AS INTEGER)`;
+    }
+    if (col.type === 'date' && col.dateFormat !== 'unix' && (from.type === 'integer' || from.type === 'number' || (from.type === 'date' && from.dateFormat === 'unix'))) {
+        return `strftime('%Y-%m-%dT%H:%M:%fZ', "${name}" / 1000.0, 'unixepoch')`;
+    }
+    return `CAST("${name}" AS ${getSqlType(col.type, col.dateFormat)})`;
+}
+
+function typeFromSql(sqlType: string): ColumnType {
+    switch (sqlType.toUpperCase()) {
+        case 'INTEGER':
+            return 'integer';
+        case 'REAL':
+            return 'number';
+        case 'BLOB':
+            return 'blob';
+        default:
+            return 'string';
+    }
+}
+
+/**
+ * Plans the queries that migrate a table to `model`.
+ * @param name name the model is registered under
+ * @param model model the table should match
+ * @param live current state of the table
+ * @param lastModel the model when models were last saved, changed columns are only migrated when it is known
+ */
+export function planMigration(name: string, model: Model, live: LiveTable, lastModel: Model | undefined, opts: MigrationOptions = {}): TableMigration {
+    const { columns, foreignKeys } = live;
+    const indexes = model.indexes ?? [];
+
+    if (columns.length === 0) {
+        return { create: true, rebuild: false, queries: [buildTableQuery(model), ...indexes.map((i) => buildIndexQuery(model, i))] };
+    }
+
+    let rebuild = false;
+    // column name => expression it is copied from when the table is rebuilt
+    const copied = new Map<string, string>();
+
+    for (const col of model.columns) {
+        const liveCol = columns.find((c) => c.name === columnName(col));
+        if (liveCol == null) {
+            // sqlite can only add columns that can be filled with a default value
+            if (col.isPrimaryKey || (!col.nullable && col.defaultValue == null) || model.foreignKeys.find((k) => k.column === columnName(col))) rebuild = true;
+            continue;
+        }
+
+        let expression: string | undefined = `"${liveCol.name}"`;
+        const lastCol = lastModel?.columns.find((c) => columnName(c) === liveCol.name);
+
+        // a column is only migrated when it changed since the models were last saved, and
+        // the table does not already match it (e.g. it was migrated by a migration file)
+        if (lastCol != null && (lastCol.type !== col.type || (lastCol.dateFormat ?? 'iso') !== (col.dateFormat ?? 'iso'))) {
+            const convert = opts.convert?.[`${name}.${col.name}`];
+            if (convert != null) {
+                expression = convert;
+                rebuild = true;
+            } else if (getSqlType(lastCol.type, lastCol.dateFormat) !== getSqlType(col.type, col.dateFormat) && liveCol.type.toUpperCase() !== getSqlType(col.type, col.dateFormat)) {
+                switch (opts.typeConversion ?? 'cast') {
+                    case 'cast':
+                        expression = castExpression(liveCol.name, lastCol, col);
+                        break;
+                    case 'default':
+                        expression = undefined;
+                        break;
+                    case 'error':
+                        throw new DBMigrationError(`${name}.${col.name}: type was changed from ${lastCol.type} to ${col.type}`);
+                }
+                rebuild = true;
+            }
+        }
+
+        if (lastCol != null) {
+            const nullableChanged = lastCol.nullable !== col.nullable && (liveCol.notnull === 0) !== col.nullable;
+            const primaryKeyChanged = lastCol.isPrimaryKey !== col.isPrimaryKey && (liveCol.pk > 0) !== col.isPrimaryKey;
+            // check constraints are not in PRAGMA table_info, they are compared with the last model only
+            const checkChanged = (lastCol.check ?? '') !== (col.check ?? '') || (lastCol.enumValues ?? []).join() !== (col.enumValues ?? []).join();
+            if (nullableChanged || primaryKeyChanged || lastCol.autoIncrement !== col.autoIncrement || checkChanged) rebuild = true;
+
+            if (nullableChanged && !col.nullable && col.defaultValue != null && expression != null) {
+                expression = `COALESCE(${expression}, ${getDefaultValue(col.type, col.defaultValue, col.dateFormat)})`;
+            }
+        }
+
+        if (expression != null) copied.set(columnName(col), expression);
+    }
+
+    const removed = columns.filter((c) => model.columns.find((col) => columnName(col) === c.name) == null);
+    if (opts.dropRemovedColumns && removed.length > 0) rebuild = true;
+
+    // only foreign keys the orm knows about are migrated, so keys added by other tools are not dropped
+    const sameKey = (a: { column: string; table: string; references: string }, b: LiveForeignKey) => a.column === b.from && a.table === b.table && a.references === b.to;
+    if ((model.foreignKeys ?? []).find((k) => foreignKeys.find((l) => sameKey(k, l)) == null)) rebuild = true;
+    if ((lastModel?.foreignKeys ?? []).find((k) => (model.foreignKeys ?? []).find((n) => n.column === k.column) == null && foreignKeys.find((l) => sameKey(k, l)))) rebuild = true;
+
+    if (!rebuild) {
+        const { created, dropped } = diffIndexes(model, live, lastModel);
+        return {
+            create: false,
+            rebuild: false,
+            queries: [
+                ...dropped.map((i) => buildDropIndexQuery(model, i)),
+                ...model.columns
+                    .filter((col) => columns.find((c) => c.name === columnName(col)) == null)
+                    .map((col) => `ALTER TABLE ${model.database}.'${model.tableName}' ADD COLUMN ${buildColumnQuery(col)}`),
+                ...created.map((i) => buildIndexQuery(model, i)),
+            ],
+        };
+    }
+
+    // removed columns that are kept are made nullable, since the orm no longer writes them
+    const kept: TableColumn[] = opts.dropRemovedColumns ? [] : removed.map((c) => ({
+        name: c.name,
+        type: lastModel?.columns.find((l) => columnName(l) === c.name)?.type ?? typeFromSql(c.type),
+        nullable: true,
+        defaultValue: null,
+        isPrimaryKey: false,
+        autoIncrement: false,
+    }));
+    for (const col of kept) {
+        copied.set(col.name, `"${col.name}"`);
+    }
+
+    const tempName = `_orm_new_${model.tableName}`;
+    const tempModel = new Model(tempName, [...model.columns, ...kept], model.database, model.relations, model.foreignKeys);
+
+    return {
+        create: false,
+        rebuild: true,
+        queries: [
+            buildTableQuery(tempModel),
+            `INSERT INTO ${model.database}.'${tempName}' (${[...copied.keys()].map((c) => `"${c}"`).join(', ')}) SELECT ${[...copied.values()].join(', ')} FROM ${model.database}.'${model.tableName}'`,
+            `DROP TABLE ${model.database}.'${model.tableName}'`,
+            `ALTER TABLE ${model.database}.'${tempName}' RENAME TO '${model.tableName}'`,
+            // indexes are dropped with the old table
+            ...indexes.map((i) => buildIndexQuery(model, i)),
+        ],
+    };
+}
+
+/**
+ * Finds indexes of the model that have to be created, and indexes of the table that have to be dropped.
+ * Only indexes the orm created are dropped.
+ */
+function diffIndexes(model: Model, live: LiveTable, lastModel: Model | undefined) {
+    const created: TableIndex[] = [];
+    const dropped: string[] = [];
+
+    for (const index of model.indexes ?? []) {
+        const liveIndex = live.indexes.find((i) => i.name === index.name);
+        const lastIndex = lastModel?.indexes?.find((i) => i.name === index.name);
+
+        if (liveIndex == null) {
+            created.push(index);
+        } else if (index.unique !== (liveIndex.unique === 1) || index.columns.join() !== liveIndex.columns.join() || (lastIndex != null && lastIndex.where !== index.where)) {
+            dropped.push(index.name);
+            created.push(index);
+        }
+    }
+
+    for (const index of lastModel?.indexes ?? []) {
+        if ((model.indexes ?? []).find((i) => i.name === index.name) == null && live.indexes.find((i) => i.name === index.name)) {
+            dropped.push(index.name);
+        }
+    }
+
+    return { created, dropped };
+}
+
+/**
+ * Plans the queries that undo a migration planned by `planMigration()`.
+ * @param model model the table was migrated to
+ * @param live state of the table before the migration
+ * @param lastModel the model the table is migrated back to
+ */
+export function planRollback(model: Model, live: LiveTable, lastModel: Model | undefined, migration: TableMigration, opts: MigrationOptions = {}): string[] {
+    if (migration.create) return [`DROP TABLE ${model.database}.'${model.tableName}'`];
+
+    // without the last model only added columns and indexes are known
+    if (!migration.rebuild || lastModel == null) {
+        const { created, dropped } = diffIndexes(model, live, lastModel);
+        return [
+            ...created.map((i) => buildDropIndexQuery(model, i.name)),
+            ...model.columns
+                .filter((col) => live.columns.find((c) => c.name === columnName(col)) == null)
+                .map((col) => `ALTER TABLE ${model.database}.'${model.tableName}' DROP COLUMN "${columnName(col)}"`),
+            ...dropped.map((name) => {
+                const index = lastModel?.indexes?.find((i) => i.name === name);
+                const liveIndex = live.indexes.find((i) => i.name === name)!;
+                return buildIndexQuery(model, index ?? { name, columns: liveIndex.columns, unique: liveIndex.unique === 1 });
+            }),
+        ];
+    }
+
+    const migrated: LiveTable = {
+        columns: [
+            ...model.columns.map((col) => ({
+                name: columnName(col),
+                type: getSqlType(col.type, col.dateFormat),
+                notnull: col.nullable ? 0 : 1,
+                dflt_value: null,
+                pk: col.isPrimaryKey ? 1 : 0,
+            })),
+            ...(opts.dropRemovedColumns ? [] : live.columns.filter((c) => model.columns.find((col) => columnName(col) === c.name) == null)),
+        ],
+        foreignKeys: (model.foreignKeys ?? []).map((k) => ({
+            from: k.column,
+            table: k.table,
+            to: k.references,
+            on_update: k.onUpdate ?? 'no action',
+            on_delete: k.onDelete ?? 'no action',
+        })),
+        indexes: (model.indexes ?? []).map((i) => ({ name: i.name, unique: i.unique ? 1 : 0, origin: 'c', partial: i.where ? 1 : 0, columns: i.columns })),
+    };
+
+    const previous = new Model(lastModel.tableName, lastModel.columns, lastModel.database, [], lastModel.foreignKeys ?? [], lastModel.indexes ?? []);
+    return planMigration(model.tableName, previous, migrated, model, { dropRemovedColumns: true }).queries;
+}
@@ -0,0 +1,169 @@
+import { DBInvalidTable, DBModelNotFound } from './errors.ts';
+import type { FindOptions, Model, PrimitiveTypes, SelectQuery, SqliteOrm, SqlTable } from './orm.ts';
+
+/**
+ * Objects a session will write on `flush()`.
+ */
+export interface PendingChanges {
+    added: SqlTable[];
+    dirty: SqlTable[];
+    removed: SqlTable[];
+}
+
+/**
+ * Unit of work created by `orm.session()`. Rows loaded through a session are kept in an identity map, so each
+ * row is loaded into one instance. Added, changed and removed objects are written in one transaction by `flush()`.
+ */
+export class Session {
+    // instances keyed by model name and primary key
+    private identityMap = new Map<string, SqlTable>();
+    private added = new Set<SqlTable>();
+    private removed = new Set<SqlTable>();
+
+    constructor(private orm: SqliteOrm) {}
+
+    /**
+     * Same as `orm.findOne()`, returns the instance of the session when the row was already loaded.
+     */
+    public findOne<T extends SqlTable>(table: new () => T, idOrQuery: PrimitiveTypes | Partial<T> | SelectQuery, options: FindOptions = {}): T {
+        return this.track(this.orm.findOne(table, idOrQuery, options));
+    }
+
+    /**
+     * Same as `orm.findMany()`, returns the instances of the session for rows that were already loaded.
+     */
+    public findMany<T extends SqlTable>(table: new () => T, query: SelectQuery): T[] {
+        return this.orm.findMany(table, query).map((obj) => this.track(obj));
+    }
+
+    /**
+     * Adds an object to the session, new objects are inserted on `flush()`.
+     */
+    public add<T extends SqlTable>(obj: T): T {
+        this.model(obj);
+        this.removed.delete(obj);
+        if (obj._new) {
+            this.added.add(obj);
+            return obj;
+        }
+        return this.track(obj);
+    }
+
+    /**
+     * Marks an object to be removed on `flush()`, objects that were added but not flushed are dropped.
+     */
+    public remove<T extends SqlTable>(obj: T): T {
+        this.model(obj);
+        if (this.added.delete(obj)) return obj;
+        this.removed.add(this.track(obj));
+        return obj;
+    }
+
+    public pending(): PendingChanges {
+        return {
+            added: [...this.added],
+            dirty: [...this.identityMap.values()].filter((obj) => !this.removed.has(obj) && this.orm.isDirty(obj)),
+            removed: [...this.removed],
+        };
+    }
+
+    /**
+     * Writes pending changes in one transaction. Rows are inserted after the rows they reference and removed
+     * before them, and foreign keys of `belongsTo` relations are set from the related objects.
+     */
+    public flush() {
+        const { added, dirty, removed } = this.pending();
+
+        this.orm.transaction(() => {
+            for (const obj of this.sortByReferences(added)) {
+                this.setForeignKeys(obj);
+                this.orm.save(obj);
+            }
+            for (const obj of dirty) {
+                this.setForeignKeys(obj);
+                this.orm.save(obj);
+            }
+            for (const obj of this.sortByReferences(removed).reverse()) {
+                this.orm.remove(obj);
+            }
+        });
+
+        for (const obj of added) {
+            // rows that were ignored on conflict are not stored
+            if (!obj._new) this.identityMap.set(this.keyOf(obj), obj);
+        }
+        for (const obj of removed) {
+            this.identityMap.delete(this.keyOf(obj));
+        }
+        this.added.clear();
+        this.removed.clear();
+    }
+
+    /**
+     * Forgets loaded objects and pending changes.
+     */
+    public clear() {
+        this.identityMap.clear();
+        this.added.clear();
+        this.removed.clear();
+    }
+
+    private model(obj: SqlTable): Model {
+        const model = this.orm.models[obj.constructor.name];
+        if (model == null) throw new DBModelNotFound(obj.constructor as typeof SqlTable);
+        return model;
+    }
+
+    private keyOf(obj: SqlTable) {
+        const keys = this.model(obj).columns.filter((c) => c.isPrimaryKey);
+        if (keys.length === 0) throw new DBInvalidTable(`${obj.constructor.name} does not have primary key`);
+        return `${obj.constructor.name}:${JSON.stringify(keys.map((c) => String(this.orm.serialize((obj as SqlTable & Record<string, unknown>)[c.name], c.type))))}`;
+    }
+
+    private track<T extends SqlTable>(obj: T): T {
+        const key = this.keyOf(obj);
+        const existing = this.identityMap.get(key);
+        if (existing) return existing as T;
+
+        this.identityMap.set(key, obj);
+        return obj;
+    }
+
+    /**
+     * Sets the foreign keys of `belongsTo` relations that hold an object, so that rows can reference rows
+     * inserted in the same flush.
+     */
+    private setForeignKeys(obj: SqlTable) {
+        for (const relation of this.model(obj).relations.filter((r) => r.type === 'belongsTo')) {
+            const related = (obj as SqlTable & Record<string, unknown>)[relation.name] as SqlTable | null | undefined;
+            if (related == null) continue;
+
+            const key = this.model(related).columns.find((c) => c.isPrimaryKey);
+            if (key) (obj as SqlTable & Record<string, unknown>)[relation.foreignKey] = (related as SqlTable & Record<string, unknown>)[key.name];
+        }
+    }
+
+    /**
+     * Sorts objects so that objects of referenced tables come first, the order of objects of the same model is kept.
+     */
+    private sortByReferences(objs: SqlTable[]): SqlTable[] {
+        const names = [...new Set(objs.map((obj) => obj.constructor.name))];
+        const tableNames = new Map(names.map((name) => [this.orm.models[name].tableName, name]));
+
+        const sorted: string[] = [];
+        const visiting = new Set<string>();
+        const visit = (name: string) => {
+            // tables that reference each other keep the order they were added in
+            if (sorted.includes(name) || visiting.has(name)) return;
+            visiting.add(name);
+            for (const key of this.orm.models[name].foreignKeys ?? []) {
+                const referenced = tableNames.get(key.table);
+                if (referenced != null && referenced !== name) visit(referenced);
+            }
+            sorted.push(name);
+        };
+        names.forEach(visit);
+
+        return sorted.flatMap((name) => objs.filter((obj) => obj.constructor.name === name));
+    }
+}